@@ -8,8 +8,12 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Chat from "./pages/Chat";
 import Documents from "./pages/Documents";
+import DocumentDetail from "./pages/DocumentDetail";
 import Users from "./pages/Users";
 import Logs from "./pages/Logs";
+import Settings from "./pages/Settings";
+import Usage from "./pages/Usage";
+import SharedConversation from "./pages/SharedConversation";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -46,6 +50,7 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
+            <Route path="/shared/:token" element={<SharedConversation />} />
             <Route
               path="/chat"
               element={
@@ -62,6 +67,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/documents/:id"
+              element={
+                <ProtectedRoute allowedRoles={['admin', 'legal_analyst']}>
+                  <DocumentDetail />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/users"
               element={
@@ -78,6 +91,22 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/usage"
+              element={
+                <ProtectedRoute allowedRoles={['admin']}>
+                  <Usage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/settings"
+              element={
+                <ProtectedRoute allowedRoles={['admin']}>
+                  <Settings />
+                </ProtectedRoute>
+              }
+            />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
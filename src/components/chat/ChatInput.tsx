@@ -1,15 +1,17 @@
 import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Loader2, Square } from 'lucide-react';
 
 interface ChatInputProps {
   onSend: (message: string) => void;
+  onStop?: () => void;
   isLoading?: boolean;
+  isStreaming?: boolean;
   disabled?: boolean;
 }
 
-export function ChatInput({ onSend, isLoading, disabled }: ChatInputProps) {
+export function ChatInput({ onSend, onStop, isLoading, isStreaming, disabled }: ChatInputProps) {
   const [input, setInput] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -49,18 +51,31 @@ export function ChatInput({ onSend, isLoading, disabled }: ChatInputProps) {
           disabled={disabled}
           rows={1}
         />
-        <Button
-          type="submit"
-          size="icon"
-          className="h-10 w-10 flex-shrink-0 rounded-xl"
-          disabled={!input.trim() || isLoading || disabled}
-        >
-          {isLoading ? (
-            <Loader2 className="h-5 w-5 animate-spin" />
-          ) : (
-            <Send className="h-5 w-5" />
-          )}
-        </Button>
+        {isStreaming && onStop ? (
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            className="h-10 w-10 flex-shrink-0 rounded-xl"
+            onClick={onStop}
+            title="Stop generating"
+          >
+            <Square className="h-4 w-4 fill-current" />
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            size="icon"
+            className="h-10 w-10 flex-shrink-0 rounded-xl"
+            disabled={!input.trim() || isLoading || disabled}
+          >
+            {isLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin" />
+            ) : (
+              <Send className="h-5 w-5" />
+            )}
+          </Button>
+        )}
       </div>
       <p className="text-xs text-muted-foreground text-center mt-2">
         Press Enter to send, Shift+Enter for new line
@@ -1,22 +1,134 @@
+import { useState, useEffect, useRef } from 'react';
 import { cn } from '@/lib/utils';
-import { Scale, User, ExternalLink, BookOpen } from 'lucide-react';
+import {
+  Scale,
+  User,
+  ExternalLink,
+  BookOpen,
+  RefreshCw,
+  Pencil,
+  CircleSlash,
+  ChevronLeft,
+  ChevronRight,
+  ShieldCheck,
+  ShieldAlert,
+  ShieldQuestion,
+} from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { MarkdownContent } from '@/components/chat/MarkdownContent';
+import { LEGAL_DISCLAIMER } from '@/lib/legal';
 
-interface Source {
+export interface ChatSource {
+  index?: number;
+  document_id?: string;
   title: string;
   domain?: string;
+  jurisdiction?: string | null;
+  chunk_index?: number;
+  version?: number | null;
+  page?: number | null;
   excerpt?: string;
+  similarity?: number;
+}
+
+// How well an answer is supported by the verified corpus, as scored by legal-chat
+export interface Grounding {
+  score: number;
+  retrieval: number;
+  coverage: number;
+  covered: boolean;
+}
+
+const GROUNDING_LEVELS = [
+  { min: 0.7, label: 'High confidence', icon: ShieldCheck, className: 'bg-success/10 text-success border-success/20' },
+  { min: 0.4, label: 'Medium confidence', icon: ShieldQuestion, className: 'bg-warning/10 text-warning border-warning/20' },
+  { min: 0, label: 'Low confidence', icon: ShieldAlert, className: 'bg-destructive/10 text-destructive border-destructive/20' },
+];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+function GroundingIndicator({ grounding }: { grounding: Grounding }) {
+  const level = grounding.covered
+    ? GROUNDING_LEVELS.find((l) => grounding.score >= l.min)!
+    : { ...GROUNDING_LEVELS[2], label: 'Not covered by verified corpus' };
+  const Icon = level.icon;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={cn('gap-1 cursor-default font-normal', level.className)}>
+          <Icon className="h-3 w-3" />
+          {level.label}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs text-xs">
+        {grounding.covered ? (
+          <>
+            Grounding {percent(grounding.score)}: sources match the question at{' '}
+            {percent(grounding.retrieval)} similarity and {percent(grounding.coverage)} of the answer
+            cites them.
+          </>
+        ) : (
+          'No validated document in the LexAdvisor corpus was close enough to this question.'
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
 }
 
 interface ChatMessageProps {
   role: 'user' | 'assistant';
   content: string;
-  sources?: Source[];
+  sources?: ChatSource[];
   isStreaming?: boolean;
+  interrupted?: boolean;
+  grounding?: Grounding | null;
+  // Scrolled into view and outlined, e.g. when opened from search
+  highlighted?: boolean;
+  onSourceClick?: (source: ChatSource) => void;
+  onRegenerate?: () => void;
+  onEdit?: (content: string) => void;
+  // Position among the alternative versions of this turn (edits or regenerations)
+  version?: { current: number; total: number };
+  onVersionChange?: (offset: -1 | 1) => void;
 }
 
-export function ChatMessage({ role, content, sources, isStreaming }: ChatMessageProps) {
+export function ChatMessage({
+  role,
+  content,
+  sources,
+  isStreaming,
+  interrupted,
+  grounding,
+  highlighted,
+  onSourceClick,
+  onRegenerate,
+  onEdit,
+  version,
+  onVersionChange,
+}: ChatMessageProps) {
   const isAssistant = role === 'assistant';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+  const bubbleRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (highlighted) bubbleRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [highlighted]);
+
+  const startEditing = () => {
+    setDraft(content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const edited = draft.trim();
+    setIsEditing(false);
+    if (edited && edited !== content) onEdit?.(edited);
+  };
 
   return (
     <div className={cn(
@@ -33,25 +145,106 @@ export function ChatMessage({ role, content, sources, isStreaming }: ChatMessage
         'max-w-[80%] space-y-3',
         isAssistant ? '' : 'order-first'
       )}>
-        <div className={cn(
-          'rounded-2xl px-5 py-4',
+        <div ref={bubbleRef} className={cn(
+          'rounded-2xl px-5 py-4 transition-shadow',
+          highlighted && 'ring-2 ring-secondary ring-offset-2 ring-offset-background',
           isAssistant 
             ? 'bg-card shadow-card border border-border/50 rounded-tl-sm' 
             : 'bg-primary text-primary-foreground rounded-tr-sm'
         )}>
           <div className={cn(
             'prose prose-sm max-w-none',
-            isAssistant ? 'text-foreground' : 'text-primary-foreground prose-invert'
+            isAssistant
+              ? 'text-foreground prose-headings:font-serif prose-blockquote:border-secondary prose-blockquote:not-italic prose-th:text-left'
+              : 'text-primary-foreground prose-invert'
           )}>
-            <p className="whitespace-pre-wrap leading-relaxed m-0">
-              {content}
-              {isStreaming && (
-                <span className="inline-block w-2 h-4 ml-1 bg-current animate-pulse-soft" />
-              )}
-            </p>
+            {isAssistant ? (
+              <>
+                <MarkdownContent content={content} sources={sources} onSourceClick={onSourceClick} />
+                {isStreaming && (
+                  <span className="inline-block w-2 h-4 ml-1 bg-current animate-pulse-soft" />
+                )}
+              </>
+            ) : isEditing ? (
+              <div className="space-y-2 not-prose">
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  className="min-h-[80px] bg-card text-foreground"
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="ghost" className="text-primary-foreground" onClick={() => setIsEditing(false)}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" variant="secondary" onClick={submitEdit} disabled={!draft.trim()}>
+                    Save & send
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="whitespace-pre-wrap leading-relaxed m-0">{content}</p>
+            )}
           </div>
         </div>
 
+        {isAssistant && interrupted && !isStreaming && (
+          <div className="flex items-center gap-1 text-xs text-warning px-1">
+            <CircleSlash className="h-3 w-3" />
+            <span>Response stopped before it was complete.</span>
+          </div>
+        )}
+
+        {isAssistant && grounding && !isStreaming && (
+          <div className="px-1">
+            <GroundingIndicator grounding={grounding} />
+          </div>
+        )}
+
+        {!isStreaming && !isEditing && (onRegenerate || onEdit || version) && (
+          <div className={cn('flex items-center gap-1', isAssistant ? 'justify-start' : 'justify-end')}>
+            {version && (
+              <div className="flex items-center text-xs text-muted-foreground">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => onVersionChange?.(-1)}
+                  disabled={!onVersionChange || version.current <= 1}
+                  aria-label="Previous version"
+                >
+                  <ChevronLeft className="h-3 w-3" />
+                </Button>
+                <span className="tabular-nums">
+                  {version.current}/{version.total}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => onVersionChange?.(1)}
+                  disabled={!onVersionChange || version.current >= version.total}
+                  aria-label="Next version"
+                >
+                  <ChevronRight className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+            {isAssistant && onRegenerate && (
+              <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs text-muted-foreground" onClick={onRegenerate}>
+                <RefreshCw className="h-3 w-3" />
+                Regenerate
+              </Button>
+            )}
+            {!isAssistant && onEdit && (
+              <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs text-muted-foreground" onClick={startEditing}>
+                <Pencil className="h-3 w-3" />
+                Edit
+              </Button>
+            )}
+          </div>
+        )}
+
         {isAssistant && sources && sources.length > 0 && (
           <div className="space-y-2">
             <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -63,13 +256,20 @@ export function ChatMessage({ role, content, sources, isStreaming }: ChatMessage
                 <Badge
                   key={index}
                   variant="outline"
-                  className="gap-1 bg-muted/50 hover:bg-muted cursor-pointer transition-colors"
+                  title={source.excerpt}
+                  className={cn(
+                    'gap-1 bg-muted/50 transition-colors',
+                    source.document_id && onSourceClick && 'hover:bg-muted cursor-pointer'
+                  )}
+                  onClick={() => source.document_id && onSourceClick?.(source)}
                 >
+                  {source.index && <span className="font-semibold">[{source.index}]</span>}
                   <span className="max-w-[200px] truncate">{source.title}</span>
+                  {source.page && <span className="text-muted-foreground">p. {source.page}</span>}
                   {source.domain && (
                     <span className="text-muted-foreground">• {source.domain}</span>
                   )}
-                  <ExternalLink className="h-3 w-3 ml-1" />
+                  {source.document_id && onSourceClick && <ExternalLink className="h-3 w-3 ml-1" />}
                 </Badge>
               ))}
             </div>
@@ -78,7 +278,7 @@ export function ChatMessage({ role, content, sources, isStreaming }: ChatMessage
 
         {isAssistant && !isStreaming && (
           <p className="text-xs text-muted-foreground italic px-1">
-            This is informational guidance only, not legal advice. Consult a qualified attorney for legal matters.
+            {LEGAL_DISCLAIMER}
           </p>
         )}
       </div>
@@ -1,12 +1,31 @@
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { MessageSquare, Plus, Trash2, MoreVertical } from 'lucide-react';
+import {
+  MessageSquare,
+  Plus,
+  Trash2,
+  MoreVertical,
+  Pencil,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  Share2,
+} from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import {
@@ -19,18 +38,37 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import type { ExportFormat } from '@/lib/conversation-export';
+import type { ConversationScope } from '@/lib/legal';
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'markdown', label: 'Markdown (.md)' },
+  { value: 'pdf', label: 'PDF (print)' },
+  { value: 'docx', label: 'Word (.docx)' },
+];
 
-interface Conversation {
+export interface Conversation extends ConversationScope {
   id: string;
   title: string;
+  summary: string | null;
+  pinned: boolean;
+  archived: boolean;
   created_at: string;
+  updated_at: string;
 }
 
+export type ConversationUpdate = Partial<
+  Pick<Conversation, 'title' | 'pinned' | 'archived'> & ConversationScope
+>;
+
 interface ConversationListProps {
   conversations: Conversation[];
   activeConversationId: string | null;
   onSelect: (id: string) => void;
   onNew: () => void;
+  onUpdate: (id: string, update: ConversationUpdate) => void;
+  onExport: (id: string, format: ExportFormat) => void;
+  onShare: (id: string) => void;
   onDelete: (id: string) => void;
 }
 
@@ -39,9 +77,22 @@ export function ConversationList({
   activeConversationId,
   onSelect,
   onNew,
+  onUpdate,
+  onExport,
+  onShare,
   onDelete,
 }: ConversationListProps) {
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [renameId, setRenameId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+
+  // Pinned conversations first, then most recently active
+  const sorted = [...conversations].sort(
+    (a, b) => Number(b.pinned) - Number(a.pinned) || b.updated_at.localeCompare(a.updated_at)
+  );
+  const active = sorted.filter((c) => !c.archived);
+  const archived = sorted.filter((c) => c.archived);
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -55,6 +106,148 @@ export function ConversationList({
     return date.toLocaleDateString();
   };
 
+  const startRename = (conversation: Conversation) => {
+    setRenameDraft(conversation.title);
+    setRenameId(conversation.id);
+  };
+
+  const submitRename = () => {
+    const title = renameDraft.trim();
+    const conversation = conversations.find((c) => c.id === renameId);
+    setRenameId(null);
+    if (conversation && title && title !== conversation.title) {
+      onUpdate(conversation.id, { title });
+    }
+  };
+
+  const renderConversation = (conversation: Conversation) => (
+    <div
+      key={conversation.id}
+      className={cn(
+        'group flex items-center gap-2 rounded-lg px-3 py-2.5 cursor-pointer transition-colors',
+        activeConversationId === conversation.id
+          ? 'bg-sidebar-accent text-sidebar-accent-foreground'
+          : 'hover:bg-sidebar-accent/50 text-sidebar-foreground'
+      )}
+      onClick={() => onSelect(conversation.id)}
+      title={conversation.summary ?? undefined}
+    >
+      {conversation.pinned ? (
+        <Pin className="h-4 w-4 flex-shrink-0" />
+      ) : (
+        <MessageSquare className="h-4 w-4 flex-shrink-0" />
+      )}
+      <div className="flex-1 min-w-0">
+        {renameId === conversation.id ? (
+          <Input
+            value={renameDraft}
+            onChange={(e) => setRenameDraft(e.target.value)}
+            onClick={(e) => e.stopPropagation()}
+            onBlur={submitRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitRename();
+              if (e.key === 'Escape') setRenameId(null);
+            }}
+            maxLength={200}
+            className="h-7 text-sm text-foreground"
+            autoFocus
+          />
+        ) : (
+          <p className="text-sm font-medium truncate">{conversation.title}</p>
+        )}
+        <p className="text-xs opacity-60">{formatDate(conversation.created_at)}</p>
+      </div>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            onClick={(e) => {
+              e.stopPropagation();
+              startRename(conversation);
+            }}
+          >
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={(e) => {
+              e.stopPropagation();
+              onUpdate(conversation.id, { pinned: !conversation.pinned });
+            }}
+          >
+            {conversation.pinned ? (
+              <PinOff className="h-4 w-4 mr-2" />
+            ) : (
+              <Pin className="h-4 w-4 mr-2" />
+            )}
+            {conversation.pinned ? 'Unpin' : 'Pin'}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={(e) => {
+              e.stopPropagation();
+              onUpdate(conversation.id, { archived: !conversation.archived });
+            }}
+          >
+            {conversation.archived ? (
+              <ArchiveRestore className="h-4 w-4 mr-2" />
+            ) : (
+              <Archive className="h-4 w-4 mr-2" />
+            )}
+            {conversation.archived ? 'Unarchive' : 'Archive'}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={(e) => {
+              e.stopPropagation();
+              onShare(conversation.id);
+            }}
+          >
+            <Share2 className="h-4 w-4 mr-2" />
+            Share
+          </DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {EXPORT_FORMATS.map((format) => (
+                <DropdownMenuItem
+                  key={format.value}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onExport(conversation.id, format.value);
+                  }}
+                >
+                  {format.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-destructive focus:text-destructive"
+            onClick={(e) => {
+              e.stopPropagation();
+              setDeleteId(conversation.id);
+            }}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-full">
       <div className="p-4 border-b border-sidebar-border">
@@ -66,53 +259,32 @@ export function ConversationList({
 
       <ScrollArea className="flex-1">
         <div className="p-2 space-y-1">
-          {conversations.length === 0 ? (
+          {active.length === 0 ? (
             <p className="text-sm text-sidebar-foreground/60 text-center py-8 px-4">
-              No conversations yet. Start by asking a legal question.
+              {archived.length === 0
+                ? 'No conversations yet. Start by asking a legal question.'
+                : 'No active conversations.'}
             </p>
           ) : (
-            conversations.map((conversation) => (
-              <div
-                key={conversation.id}
-                className={cn(
-                  'group flex items-center gap-2 rounded-lg px-3 py-2.5 cursor-pointer transition-colors',
-                  activeConversationId === conversation.id
-                    ? 'bg-sidebar-accent text-sidebar-accent-foreground'
-                    : 'hover:bg-sidebar-accent/50 text-sidebar-foreground'
-                )}
-                onClick={() => onSelect(conversation.id)}
+            active.map(renderConversation)
+          )}
+
+          {archived.length > 0 && (
+            <>
+              <button
+                type="button"
+                onClick={() => setShowArchived((prev) => !prev)}
+                className="flex w-full items-center gap-1 px-3 pt-4 pb-1 text-xs font-medium uppercase tracking-wide text-sidebar-foreground/60 hover:text-sidebar-foreground"
               >
-                <MessageSquare className="h-4 w-4 flex-shrink-0" />
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium truncate">{conversation.title}</p>
-                  <p className="text-xs opacity-60">{formatDate(conversation.created_at)}</p>
-                </div>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
-                      onClick={(e) => e.stopPropagation()}
-                    >
-                      <MoreVertical className="h-4 w-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuItem
-                      className="text-destructive focus:text-destructive"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setDeleteId(conversation.id);
-                      }}
-                    >
-                      <Trash2 className="h-4 w-4 mr-2" />
-                      Delete
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </div>
-            ))
+                {showArchived ? (
+                  <ChevronDown className="h-3 w-3" />
+                ) : (
+                  <ChevronRight className="h-3 w-3" />
+                )}
+                Archived ({archived.length})
+              </button>
+              {showArchived && archived.map(renderConversation)}
+            </>
           )}
         </div>
       </ScrollArea>
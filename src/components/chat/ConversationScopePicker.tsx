@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Globe, SlidersHorizontal } from 'lucide-react';
+import {
+  ConversationScope,
+  DOMAINS,
+  EMPTY_SCOPE,
+  getDomainLabel,
+  LegalDomain,
+} from '@/lib/legal';
+
+interface ConversationScopePickerProps {
+  scope: ConversationScope;
+  onChange: (scope: ConversationScope) => void;
+  disabled?: boolean;
+}
+
+const parseYear = (value: string) => (value.trim() ? parseInt(value, 10) || null : null);
+
+export function ConversationScopePicker({ scope, onChange, disabled }: ConversationScopePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(scope);
+  const [yearFrom, setYearFrom] = useState('');
+  const [yearTo, setYearTo] = useState('');
+
+  const openPicker = (isOpen: boolean) => {
+    if (isOpen) {
+      setDraft(scope);
+      setYearFrom(scope.year_from?.toString() ?? '');
+      setYearTo(scope.year_to?.toString() ?? '');
+    }
+    setOpen(isOpen);
+  };
+
+  const toggleDomain = (domain: LegalDomain, checked: boolean) => {
+    setDraft((prev) => ({
+      ...prev,
+      domains: checked ? [...prev.domains, domain] : prev.domains.filter((d) => d !== domain),
+    }));
+  };
+
+  const yearsInvalid = (() => {
+    const from = parseYear(yearFrom);
+    const to = parseYear(yearTo);
+    return from !== null && to !== null && from > to;
+  })();
+
+  const apply = (next: ConversationScope) => {
+    onChange(next);
+    setOpen(false);
+  };
+
+  const summary = [
+    scope.jurisdiction,
+    ...scope.domains.map(getDomainLabel),
+    scope.year_from || scope.year_to
+      ? `${scope.year_from ?? '…'}–${scope.year_to ?? '…'}`
+      : null,
+  ].filter(Boolean) as string[];
+
+  return (
+    <Popover open={open} onOpenChange={openPicker}>
+      <div className="flex items-center gap-2 min-w-0">
+        <Globe className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+        {summary.length === 0 ? (
+          <span className="text-sm text-muted-foreground">All jurisdictions and areas of law</span>
+        ) : (
+          <div className="flex flex-wrap gap-1 min-w-0">
+            {summary.map((item) => (
+              <Badge key={item} variant="secondary" className="font-normal">
+                {item}
+              </Badge>
+            ))}
+          </div>
+        )}
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="ml-auto h-7 gap-1 text-xs" disabled={disabled}>
+            <SlidersHorizontal className="h-3 w-3" />
+            Scope
+          </Button>
+        </PopoverTrigger>
+      </div>
+
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="scope-jurisdiction">Jurisdiction</Label>
+          <Input
+            id="scope-jurisdiction"
+            value={draft.jurisdiction ?? ''}
+            onChange={(e) => setDraft((prev) => ({ ...prev, jurisdiction: e.target.value || null }))}
+            placeholder="e.g., California, Federal"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Areas of law</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {DOMAINS.map((domain) => (
+              <label key={domain.value} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={draft.domains.includes(domain.value)}
+                  onCheckedChange={(checked) => toggleDomain(domain.value, checked === true)}
+                />
+                {domain.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Years</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              value={yearFrom}
+              onChange={(e) => setYearFrom(e.target.value)}
+              placeholder="From"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="number"
+              value={yearTo}
+              onChange={(e) => setYearTo(e.target.value)}
+              placeholder="To"
+            />
+          </div>
+          {yearsInvalid && (
+            <p className="text-xs text-destructive">The start year must not be after the end year.</p>
+          )}
+        </div>
+
+        <div className="flex justify-between">
+          <Button variant="ghost" size="sm" onClick={() => apply(EMPTY_SCOPE)}>
+            Clear
+          </Button>
+          <Button
+            size="sm"
+            disabled={yearsInvalid}
+            onClick={() =>
+              apply({
+                ...draft,
+                jurisdiction: draft.jurisdiction?.trim() || null,
+                year_from: parseYear(yearFrom),
+                year_to: parseYear(yearTo),
+              })
+            }
+          >
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,62 @@
+import { memo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { ChatSource } from '@/components/chat/ChatMessage';
+
+interface MarkdownContentProps {
+  content: string;
+  sources?: ChatSource[];
+  onSourceClick?: (source: ChatSource) => void;
+}
+
+const CITATION_HREF_PREFIX = '#cite-';
+
+// Turns bare [n] markers into links, skipping ones that are already markdown links.
+function linkCitations(content: string, sourceCount: number) {
+  if (sourceCount === 0) return content;
+
+  return content.replace(/\[(\d+)\](?![(:])/g, (match, n: string) =>
+    Number(n) >= 1 && Number(n) <= sourceCount ? `[\\[${n}\\]](${CITATION_HREF_PREFIX}${n})` : match
+  );
+}
+
+function MarkdownContentBase({ content, sources = [], onSourceClick }: MarkdownContentProps) {
+  const findSource = (n: number) => sources.find((s) => s.index === n) ?? sources[n - 1];
+
+  const components: Components = {
+    a: ({ href, children }) => {
+      if (href?.startsWith(CITATION_HREF_PREFIX)) {
+        const source = findSource(Number(href.slice(CITATION_HREF_PREFIX.length)));
+        return (
+          <button
+            type="button"
+            title={source?.title}
+            className="align-super text-[0.7em] font-semibold text-accent hover:underline no-underline"
+            onClick={() => source?.document_id && onSourceClick?.(source)}
+          >
+            {children}
+          </button>
+        );
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer">
+          {children}
+        </a>
+      );
+    },
+    table: ({ children }) => (
+      <div className="overflow-x-auto">
+        <table>{children}</table>
+      </div>
+    ),
+  };
+
+  return (
+    <ReactMarkdown remarkPlugins={[remarkGfm]} skipHtml components={components}>
+      {linkCitations(content, sources.length)}
+    </ReactMarkdown>
+  );
+}
+
+// Streaming re-renders the parent on every delta; only re-parse when the inputs change.
+export const MarkdownContent = memo(MarkdownContentBase);
@@ -0,0 +1,163 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2, MessageSquare, Search, X } from 'lucide-react';
+
+export interface MessageSearchHit {
+  message_id: string;
+  conversation_id: string;
+  conversation_title: string;
+  role: string;
+  created_at: string;
+  snippet: string;
+}
+
+interface MessageSearchProps {
+  onSelect: (hit: MessageSearchHit) => void;
+  // Shown while no search is active (the conversation list)
+  children: ReactNode;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// search_messages marks matched terms with <mark>…</mark>; render them as React nodes, never as HTML
+function Snippet({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/<mark>|<\/mark>/).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-secondary/40 text-inherit rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+export function MessageSearch({ onSelect, children }: MessageSearchProps) {
+  const [query, setQuery] = useState('');
+  const [semantic, setSemantic] = useState(false);
+  const [results, setResults] = useState<MessageSearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    if (!trimmedQuery) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      const { data, error } = await supabase.functions.invoke('search-messages', {
+        body: { query: trimmedQuery, semantic },
+      });
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error searching messages:', error);
+        setResults([]);
+      } else {
+        setResults(data?.results ?? []);
+      }
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [trimmedQuery, semantic]);
+
+  // Hits arrive best first; group them by conversation in that order
+  const groups = new Map<string, { title: string; hits: MessageSearchHit[] }>();
+  for (const hit of results) {
+    const group = groups.get(hit.conversation_id) ?? { title: hit.conversation_title, hits: [] };
+    group.hits.push(hit);
+    groups.set(hit.conversation_id, group);
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 pt-4 space-y-2">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setQuery('')}
+            placeholder="Search conversations..."
+            maxLength={500}
+            className="pl-8 pr-8"
+          />
+          {query && (
+            <button
+              type="button"
+              onClick={() => setQuery('')}
+              className="absolute right-2.5 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              aria-label="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        {trimmedQuery && (
+          <label className="flex items-center gap-2 text-xs text-sidebar-foreground/70">
+            <Switch checked={semantic} onCheckedChange={setSemantic} />
+            Include similar meanings
+          </label>
+        )}
+      </div>
+
+      {trimmedQuery ? (
+        <ScrollArea className="flex-1">
+          <div className="p-2 space-y-3">
+            {isSearching && results.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-sidebar-foreground/60" />
+              </div>
+            ) : groups.size === 0 ? (
+              <p className="text-sm text-sidebar-foreground/60 text-center py-8 px-4">
+                No messages match your search.
+              </p>
+            ) : (
+              [...groups.entries()].map(([conversationId, group]) => (
+                <div key={conversationId} className="space-y-1">
+                  <div className="flex items-center gap-2 px-3 text-xs font-medium text-sidebar-foreground/60">
+                    <MessageSquare className="h-3 w-3 flex-shrink-0" />
+                    <span className="truncate">{group.title}</span>
+                  </div>
+                  {group.hits.map((hit) => (
+                    <button
+                      key={hit.message_id}
+                      type="button"
+                      onClick={() => onSelect(hit)}
+                      className="w-full rounded-lg px-3 py-2 text-left text-sm text-sidebar-foreground hover:bg-sidebar-accent/50 transition-colors"
+                    >
+                      <p className="line-clamp-3">
+                        <span className="font-medium">{hit.role === 'user' ? 'You: ' : 'LexAdvisor: '}</span>
+                        <Snippet text={hit.snippet} />
+                      </p>
+                      <p className="text-xs opacity-60 mt-1">
+                        {new Date(hit.created_at).toLocaleDateString()}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      ) : (
+        <div className="flex-1 min-h-0">{children}</div>
+      )}
+    </div>
+  );
+}
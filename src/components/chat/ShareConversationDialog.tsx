@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Copy, Eye, Link2, Loader2, Lock } from 'lucide-react';
+
+interface Share {
+  id: string;
+  token: string;
+  members_only: boolean;
+  expires_at: string | null;
+  revoked_at: string | null;
+  view_count: number;
+  created_at: string;
+}
+
+interface ShareConversationDialogProps {
+  conversationId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: 'never', label: 'Never' },
+];
+
+const shareUrl = (token: string) => `${window.location.origin}/shared/${token}`;
+
+const isActive = (share: Share) =>
+  !share.revoked_at && (!share.expires_at || new Date(share.expires_at) > new Date());
+
+export function ShareConversationDialog({ conversationId, onOpenChange }: ShareConversationDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [shares, setShares] = useState<Share[]>([]);
+  const [expiry, setExpiry] = useState('7');
+  const [membersOnly, setMembersOnly] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (!conversationId) return;
+    setShares([]);
+
+    const fetchShares = async () => {
+      const { data, error } = await supabase
+        .from('conversation_shares')
+        .select('id, token, members_only, expires_at, revoked_at, view_count, created_at')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching shares:', error);
+        return;
+      }
+
+      setShares(data || []);
+    };
+
+    fetchShares();
+  }, [conversationId]);
+
+  const copyLink = async (share: Share) => {
+    await navigator.clipboard.writeText(shareUrl(share.token));
+    toast({
+      title: 'Link copied',
+      description: share.members_only
+        ? 'Signed-in members with the link can read this conversation.'
+        : 'Anyone with the link can read this conversation.',
+    });
+  };
+
+  const createShare = async () => {
+    if (!conversationId || !user) return;
+    setIsCreating(true);
+
+    // Snapshot the branch currently selected in the conversation
+    const { data: conversation } = await supabase
+      .from('conversations')
+      .select('current_message_id')
+      .eq('id', conversationId)
+      .single();
+
+    const { data, error } = await supabase
+      .from('conversation_shares')
+      .insert({
+        conversation_id: conversationId,
+        message_id: conversation?.current_message_id ?? null,
+        created_by: user.id,
+        members_only: membersOnly,
+        expires_at:
+          expiry === 'never'
+            ? null
+            : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000).toISOString(),
+      })
+      .select('id, token, members_only, expires_at, revoked_at, view_count, created_at')
+      .single();
+
+    setIsCreating(false);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to create share link',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setShares((prev) => [data, ...prev]);
+    await copyLink(data);
+  };
+
+  const revokeShare = async (id: string) => {
+    const { data, error } = await supabase
+      .from('conversation_shares')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('id, token, members_only, expires_at, revoked_at, view_count, created_at')
+      .single();
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke share link',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setShares((prev) => prev.map((s) => (s.id === id ? data : s)));
+  };
+
+  return (
+    <Dialog open={!!conversationId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-serif">Share conversation</DialogTitle>
+          <DialogDescription>
+            Create a read-only link to the conversation as it is now. Later messages are not included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="share-expiry">Expires after</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger id="share-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="share-members-only">Signed-in members only</Label>
+            <div className="flex h-10 items-center">
+              <Switch id="share-members-only" checked={membersOnly} onCheckedChange={setMembersOnly} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={createShare} disabled={isCreating} className="gap-2">
+            {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+            Create link
+          </Button>
+        </DialogFooter>
+
+        {shares.length > 0 && (
+          <div className="space-y-2 border-t border-border pt-4">
+            <p className="text-sm font-medium">Existing links</p>
+            {shares.map((share) => (
+              <div
+                key={share.id}
+                className="flex items-center gap-2 rounded-lg border border-border p-3 text-sm"
+              >
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="truncate font-mono text-xs text-muted-foreground">{shareUrl(share.token)}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    {share.revoked_at ? (
+                      <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">
+                        Revoked
+                      </Badge>
+                    ) : !isActive(share) ? (
+                      <Badge variant="outline" className="bg-muted">Expired</Badge>
+                    ) : (
+                      <span>
+                        {share.expires_at
+                          ? `Expires ${new Date(share.expires_at).toLocaleDateString()}`
+                          : 'No expiry'}
+                      </span>
+                    )}
+                    {share.members_only && (
+                      <span className="flex items-center gap-1">
+                        <Lock className="h-3 w-3" />
+                        Members only
+                      </span>
+                    )}
+                    <span className="flex items-center gap-1">
+                      <Eye className="h-3 w-3" />
+                      {share.view_count}
+                    </span>
+                  </div>
+                </div>
+                {isActive(share) && (
+                  <>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyLink(share)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => revokeShare(share.id)}
+                    >
+                      Revoke
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
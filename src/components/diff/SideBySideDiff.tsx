@@ -0,0 +1,56 @@
+import { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { diffLines, DiffLine, toSideBySide } from '@/lib/text-diff';
+
+interface SideBySideDiffProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+function DiffCell({ line, side }: { line: DiffLine | null; side: 'left' | 'right' }) {
+  const number = side === 'left' ? line?.oldNumber : line?.newNumber;
+
+  return (
+    <div
+      className={cn(
+        'flex min-w-0',
+        !line && 'bg-muted/40',
+        line?.op === 'removed' && 'bg-destructive/10',
+        line?.op === 'added' && 'bg-success/10'
+      )}
+    >
+      <span className="w-10 flex-shrink-0 select-none pr-2 text-right text-muted-foreground">
+        {number ?? ''}
+      </span>
+      <span className="min-w-0 flex-1 whitespace-pre-wrap break-words pr-2">{line?.text ?? ''}</span>
+    </div>
+  );
+}
+
+export function SideBySideDiff({ before, after, beforeLabel, afterLabel }: SideBySideDiffProps) {
+  const rows = useMemo(() => toSideBySide(diffLines(before, after)), [before, after]);
+  const unchanged = before === after;
+
+  return (
+    <div className="rounded-lg border border-border overflow-hidden font-mono text-xs">
+      <div className="grid grid-cols-2 border-b border-border bg-muted/50 font-sans text-xs font-medium">
+        <div className="px-3 py-2 border-r border-border">{beforeLabel}</div>
+        <div className="px-3 py-2">{afterLabel}</div>
+      </div>
+      {unchanged ? (
+        <p className="p-4 text-center font-sans text-sm text-muted-foreground">No differences.</p>
+      ) : (
+        rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-2">
+            <div className="border-r border-border">
+              <DiffCell line={row.left} side="left" />
+            </div>
+            <DiffCell line={row.right} side="right" />
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,399 @@
+import { useRef, useState } from 'react';
+import JSZip from 'jszip';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { getDomainLabel } from '@/lib/legal';
+import { downloadBlob } from '@/lib/conversation-export';
+import {
+  removeDocumentFile,
+  uploadDocumentFile,
+  validateDocumentFile,
+  UploadedFile,
+} from '@/lib/document-files';
+import {
+  buildErrorReport,
+  isIgnoredPath,
+  isManifestPath,
+  parseManifest,
+  planImport,
+  ImportItem,
+  ImportStatus,
+  ManifestRow,
+} from '@/lib/bulk-import';
+import { FileDropzone } from '@/components/documents/FileDropzone';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { AlertCircle, AlertTriangle, CheckCircle, Clock, Download, Loader2, MinusCircle } from 'lucide-react';
+
+type Step = 'select' | 'review' | 'importing' | 'done';
+
+interface BulkImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Ids of the documents created, so the caller can index them
+  onImported: (documentIds: string[]) => void;
+}
+
+const STATUS_ICONS: Record<ImportStatus, { icon: typeof Clock; className: string; label: string }> = {
+  pending: { icon: Clock, className: 'text-muted-foreground', label: 'Pending' },
+  importing: { icon: Loader2, className: 'text-accent animate-spin', label: 'Importing' },
+  imported: { icon: CheckCircle, className: 'text-success', label: 'Imported' },
+  failed: { icon: AlertCircle, className: 'text-destructive', label: 'Failed' },
+  skipped: { icon: MinusCircle, className: 'text-muted-foreground', label: 'Skipped' },
+};
+
+const baseName = (path: string) => path.split('/').pop() ?? path;
+
+export function BulkImportDialog({ open, onOpenChange, onImported }: BulkImportDialogProps) {
+  const { user, role } = useAuth();
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>('select');
+  const [archive, setArchive] = useState<File | null>(null);
+  const [manifestFile, setManifestFile] = useState<File | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [statuses, setStatuses] = useState<ImportStatus[]>([]);
+  const [failures, setFailures] = useState<Record<number, string>>({});
+  const zipRef = useRef<JSZip | null>(null);
+  const stopRef = useRef(false);
+
+  const reset = () => {
+    setStep('select');
+    setArchive(null);
+    setManifestFile(null);
+    setItems([]);
+    setStatuses([]);
+    setFailures({});
+    zipRef.current = null;
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (step === 'importing') return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const analyze = async () => {
+    if (!archive && !manifestFile) return;
+    setIsAnalyzing(true);
+
+    try {
+      const zip = archive ? await JSZip.loadAsync(archive) : null;
+      const entries = zip
+        ? Object.values(zip.files).filter((entry) => !entry.dir && !isIgnoredPath(entry.name))
+        : [];
+
+      // A manifest picked separately wins over one bundled in the ZIP.
+      const bundled = entries.find((entry) => isManifestPath(entry.name));
+      let manifest: ManifestRow[] | null = null;
+      if (manifestFile) {
+        manifest = parseManifest(await manifestFile.text(), manifestFile.name);
+      } else if (bundled) {
+        manifest = parseManifest(await bundled.async('string'), bundled.name);
+      }
+
+      const files = entries
+        .filter((entry) => entry !== bundled)
+        .map((entry) => ({ path: entry.name }));
+
+      const planned = planImport(files, manifest);
+      if (planned.length === 0) {
+        throw new Error('Nothing to import: the ZIP and manifest contain no documents');
+      }
+
+      zipRef.current = zip;
+      setItems(planned);
+      setStatuses(planned.map((item) => (item.errors.length ? 'skipped' : 'pending')));
+      setFailures({});
+      setStep('review');
+    } catch (error) {
+      toast({
+        title: 'Could not read the import',
+        description: error instanceof Error ? error.message : 'The ZIP or manifest is not valid.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const setStatus = (index: number, status: ImportStatus) =>
+    setStatuses((prev) => prev.map((s, i) => (i === index ? status : s)));
+
+  const importItem = async (item: ImportItem): Promise<string> => {
+    let uploaded: UploadedFile | null = null;
+
+    if (item.path) {
+      const blob = await zipRef.current?.file(item.path)?.async('blob');
+      if (!blob) throw new Error('The file could not be read from the ZIP');
+
+      const file = new File([blob], baseName(item.path));
+      const problem = validateDocumentFile(file);
+      if (problem) throw new Error(problem);
+
+      uploaded = await uploadDocumentFile(file);
+    }
+
+    const { data, error } = await supabase.from('legal_documents').insert({
+      title: item.title,
+      description: item.description,
+      content: item.content,
+      ...uploaded,
+      domain: item.domain,
+      jurisdiction: item.jurisdiction,
+      year: item.year,
+      tags: item.tags,
+      uploaded_by: user?.id,
+      // Text extracted from a file later has not been read by anyone yet
+      validated: role === 'admin' && !uploaded,
+    }).select('id').single();
+
+    if (error) {
+      if (uploaded) removeDocumentFile(uploaded.file_path);
+      throw new Error(error.message);
+    }
+
+    return data.id;
+  };
+
+  const runImport = async () => {
+    setStep('importing');
+    stopRef.current = false;
+    const imported: string[] = [];
+
+    // One at a time keeps uploads within storage rate limits and the progress readable.
+    for (let index = 0; index < items.length; index++) {
+      if (statuses[index] !== 'pending') continue;
+
+      if (stopRef.current) {
+        setFailures((prev) => ({ ...prev, [index]: 'Import stopped before this item' }));
+        setStatus(index, 'skipped');
+        continue;
+      }
+
+      setStatus(index, 'importing');
+      try {
+        imported.push(await importItem(items[index]));
+        setStatus(index, 'imported');
+      } catch (error) {
+        setFailures((prev) => ({
+          ...prev,
+          [index]: error instanceof Error ? error.message : 'Unknown error',
+        }));
+        setStatus(index, 'failed');
+      }
+    }
+
+    setStep('done');
+    if (imported.length) onImported(imported);
+  };
+
+  const downloadErrorReport = () => {
+    const report = new Blob([buildErrorReport(items, statuses, failures)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(report, 'import-errors.csv');
+  };
+
+  const count = (status: ImportStatus) => statuses.filter((s) => s === status).length;
+  const invalid = items.filter((item) => item.errors.length).length;
+  const ready = items.length - invalid;
+  const withWarnings = items.filter((item) => !item.errors.length && item.warnings.length).length;
+  const processed = statuses.filter((s) => s !== 'pending' && s !== 'importing').length;
+  const hasProblems = count('failed') + count('skipped') > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-serif">Bulk Import</DialogTitle>
+          <DialogDescription>
+            {step === 'select'
+              ? 'Import a ZIP of PDF, DOCX, HTML or text files, with an optional CSV or JSON manifest.'
+              : step === 'review'
+                ? 'Dry run: nothing has been imported yet. Rows with errors will be skipped.'
+                : `${processed} of ${items.length} processed`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'select' ? (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>ZIP archive</Label>
+              <FileDropzone
+                file={archive}
+                onFileChange={setArchive}
+                accept=".zip,application/zip"
+                hint="Files in subfolders are included; a manifest.csv or manifest.json inside is used"
+                disabled={isAnalyzing}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Manifest (optional)</Label>
+              <FileDropzone
+                file={manifestFile}
+                onFileChange={setManifestFile}
+                accept=".csv,.json,text/csv,application/json"
+                hint="Columns: file, title, description, domain, jurisdiction, year, tags (separated by ;), or content for rows without a file"
+                disabled={isAnalyzing}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col gap-3">
+            {step === 'review' ? (
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+                  {ready} ready
+                </Badge>
+                {withWarnings > 0 && (
+                  <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20">
+                    {withWarnings} with warnings
+                  </Badge>
+                )}
+                {invalid > 0 && (
+                  <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">
+                    {invalid} with errors
+                  </Badge>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Progress value={(processed / items.length) * 100} />
+                <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                  <span>{count('imported')} imported</span>
+                  <span>· {count('failed')} failed</span>
+                  <span>· {count('skipped')} skipped</span>
+                </div>
+              </div>
+            )}
+
+            <div className="flex-1 min-h-0 overflow-y-auto rounded-lg border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Row</TableHead>
+                    <TableHead>File</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Domain</TableHead>
+                    <TableHead>Jurisdiction</TableHead>
+                    <TableHead>Year</TableHead>
+                    <TableHead>Issues</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item, index) => {
+                    const status = STATUS_ICONS[statuses[index]];
+                    const StatusIcon = status.icon;
+                    const issues = failures[index] ? [failures[index]] : [...item.errors, ...item.warnings];
+
+                    return (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <StatusIcon className={cn('h-4 w-4', status.className)} />
+                            </TooltipTrigger>
+                            <TooltipContent>{status.label}</TooltipContent>
+                          </Tooltip>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{item.row ?? '—'}</TableCell>
+                        <TableCell className="max-w-[180px] truncate" title={item.path ?? undefined}>
+                          {item.path ?? (item.content ? 'Text in manifest' : '—')}
+                        </TableCell>
+                        <TableCell className="max-w-[200px] truncate">{item.title}</TableCell>
+                        <TableCell>{getDomainLabel(item.domain)}</TableCell>
+                        <TableCell>{item.jurisdiction ?? '—'}</TableCell>
+                        <TableCell>{item.year ?? '—'}</TableCell>
+                        <TableCell className="max-w-[260px]">
+                          {issues.map((issue) => (
+                            <p
+                              key={issue}
+                              className={cn(
+                                'flex items-start gap-1 text-xs',
+                                item.errors.includes(issue) || failures[index] ? 'text-destructive' : 'text-warning'
+                              )}
+                            >
+                              <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                              {issue}
+                            </p>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'select' && (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={analyze} disabled={(!archive && !manifestFile) || isAnalyzing}>
+                {isAnalyzing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Check import
+              </Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              {invalid > 0 && (
+                <Button variant="outline" onClick={downloadErrorReport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Error report
+                </Button>
+              )}
+              <Button onClick={runImport} disabled={ready === 0}>
+                Import {ready} {ready === 1 ? 'document' : 'documents'}
+              </Button>
+            </>
+          )}
+          {step === 'importing' && (
+            <Button variant="outline" onClick={() => (stopRef.current = true)}>
+              Stop
+            </Button>
+          )}
+          {step === 'done' && (
+            <>
+              {hasProblems && (
+                <Button variant="outline" onClick={downloadErrorReport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Error report
+                </Button>
+              )}
+              <Button onClick={() => handleOpenChange(false)}>Close</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DOMAINS, LegalDomain } from '@/lib/legal';
+import type { DocumentFormValues } from '@/lib/document-form';
+
+interface DocumentFormFieldsProps {
+  values: DocumentFormValues;
+  onChange: (values: DocumentFormValues) => void;
+  // Rendered between the metadata and the content, e.g. a file picker
+  children?: React.ReactNode;
+  contentLabel?: string;
+  showContent?: boolean;
+}
+
+// Metadata and content fields shared by the upload and edit dialogs.
+export function DocumentFormFields({
+  values,
+  onChange,
+  children,
+  contentLabel = 'Document Content *',
+  showContent = true,
+}: DocumentFormFieldsProps) {
+  const set = <K extends keyof DocumentFormValues>(field: K, value: DocumentFormValues[K]) =>
+    onChange({ ...values, [field]: value });
+
+  return (
+    <div className="space-y-4 py-4">
+      <div className="space-y-2">
+        <Label htmlFor="title">Title *</Label>
+        <Input
+          id="title"
+          placeholder="Document title"
+          value={values.title}
+          onChange={(e) => set('title', e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Description</Label>
+        <Textarea
+          id="description"
+          placeholder="Brief description of the document"
+          value={values.description}
+          onChange={(e) => set('description', e.target.value)}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="domain">Legal Domain</Label>
+          <Select value={values.domain} onValueChange={(v) => set('domain', v as LegalDomain)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DOMAINS.map((d) => (
+                <SelectItem key={d.value} value={d.value}>
+                  {d.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="jurisdiction">Jurisdiction</Label>
+          <Input
+            id="jurisdiction"
+            placeholder="e.g., United States"
+            value={values.jurisdiction}
+            onChange={(e) => set('jurisdiction', e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="year">Year</Label>
+          <Input
+            id="year"
+            type="number"
+            placeholder="e.g., 2024"
+            value={values.year}
+            onChange={(e) => set('year', e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="tags">Tags (comma-separated)</Label>
+          <Input
+            id="tags"
+            placeholder="e.g., contract, employment"
+            value={values.tags}
+            onChange={(e) => set('tags', e.target.value)}
+          />
+        </div>
+      </div>
+
+      {children}
+
+      {showContent && (
+        <div className="space-y-2">
+          <Label htmlFor="content">{contentLabel}</Label>
+          <Textarea
+            id="content"
+            placeholder="Paste the full text of the legal document..."
+            className="min-h-[200px]"
+            value={values.content}
+            onChange={(e) => set('content', e.target.value)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { SideBySideDiff } from '@/components/diff/SideBySideDiff';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GitCompare, History, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getDomainLabel } from '@/lib/legal';
+
+interface DocumentVersion {
+  id: string;
+  version: number;
+  title: string;
+  description: string | null;
+  content: string | null;
+  domain: string;
+  jurisdiction: string | null;
+  year: number | null;
+  tags: string[] | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface DocumentHistoryProps {
+  documentId: string;
+  // Bumped by the page whenever the document changes, so new versions show up
+  reloadKey: number;
+  canRestore: boolean;
+  onRestored: () => void;
+}
+
+const METADATA_FIELDS: { label: string; format: (version: DocumentVersion) => string }[] = [
+  { label: 'Title', format: (v) => v.title },
+  { label: 'Description', format: (v) => v.description ?? '' },
+  { label: 'Domain', format: (v) => getDomainLabel(v.domain) },
+  { label: 'Jurisdiction', format: (v) => v.jurisdiction ?? '' },
+  { label: 'Year', format: (v) => v.year?.toString() ?? '' },
+  { label: 'Tags', format: (v) => v.tags?.join(', ') ?? '' },
+];
+
+export function DocumentHistory({ documentId, reloadKey, canRestore, onRestored }: DocumentHistoryProps) {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [authors, setAuthors] = useState<Record<string, string>>({});
+  // Versions compared side by side, older on the left
+  const [beforeId, setBeforeId] = useState<string | null>(null);
+  const [afterId, setAfterId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<DocumentVersion | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchVersions = useCallback(async () => {
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from('legal_document_versions')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching document versions:', error);
+      setIsLoading(false);
+      return;
+    }
+
+    const loaded = (data || []) as DocumentVersion[];
+    setVersions(loaded);
+    setAfterId(loaded[0]?.id ?? null);
+    setBeforeId(loaded[1]?.id ?? loaded[0]?.id ?? null);
+
+    const authorIds = [...new Set(loaded.map((v) => v.created_by).filter(Boolean))] as string[];
+    if (authorIds.length > 0) {
+      const { data: names } = await supabase.rpc('get_display_names', { _user_ids: authorIds });
+      setAuthors(Object.fromEntries((names || []).map((n) => [n.user_id, n.full_name])));
+    }
+
+    setIsLoading(false);
+  }, [documentId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions, reloadKey]);
+
+  const current = versions[0] ?? null;
+  const before = versions.find((v) => v.id === beforeId) ?? null;
+  const after = versions.find((v) => v.id === afterId) ?? null;
+  const metadataChanges =
+    before && after
+      ? METADATA_FIELDS.filter((field) => field.format(before) !== field.format(after))
+      : [];
+
+  const compareWithCurrent = (version: DocumentVersion) => {
+    setBeforeId(version.id);
+    setAfterId(current?.id ?? version.id);
+  };
+
+  const restore = async () => {
+    if (!restoring) return;
+
+    const version = restoring;
+    const contentChanged = version.content !== current?.content;
+    setRestoring(null);
+
+    const { data: restored, error } = await supabase.rpc('restore_document_version', {
+      _version_id: version.id,
+    });
+
+    if (error) {
+      toast({ title: 'Restore failed', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({
+      title: `Version ${version.version} restored`,
+      description: contentChanged
+        ? `Saved as version ${restored}. The restored text is being indexed and needs to be validated again.`
+        : `Saved as version ${restored}.`,
+    });
+    onRestored();
+
+    if (contentChanged) {
+      const { error: indexError } = await supabase.functions.invoke('ingest-document', {
+        body: { documentId },
+      });
+
+      if (indexError) {
+        toast({ title: 'Indexing failed', description: indexError.message, variant: 'destructive' });
+      }
+      onRestored();
+    }
+  };
+
+  const versionLabel = (version: DocumentVersion) =>
+    version.id === current?.id ? `Version ${version.version} (current)` : `Version ${version.version}`;
+
+  if (isLoading && versions.length === 0) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_280px]">
+      <Card className="shadow-card min-w-0">
+        <CardHeader className="pb-3">
+          <CardTitle className="font-serif text-lg flex items-center gap-2">
+            <GitCompare className="h-4 w-4" />
+            Compare versions
+          </CardTitle>
+          <CardDescription>Lines removed are on the left, lines added on the right.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {[
+              { id: 'compare-before', label: 'From', value: beforeId, onChange: setBeforeId },
+              { id: 'compare-after', label: 'To', value: afterId, onChange: setAfterId },
+            ].map((side) => (
+              <div key={side.id} className="space-y-2">
+                <Label htmlFor={side.id}>{side.label}</Label>
+                <Select value={side.value ?? undefined} onValueChange={side.onChange}>
+                  <SelectTrigger id={side.id}>
+                    <SelectValue placeholder="Select a version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id}>
+                        {versionLabel(version)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {before && after && (
+            <>
+              {metadataChanges.length > 0 && (
+                <dl className="rounded-lg border border-border divide-y divide-border text-sm">
+                  {metadataChanges.map((field) => (
+                    <div key={field.label} className="grid grid-cols-[110px_minmax(0,1fr)_minmax(0,1fr)] gap-3 px-3 py-2">
+                      <dt className="text-xs text-muted-foreground">{field.label}</dt>
+                      <dd className="break-words text-destructive line-through">{field.format(before) || '—'}</dd>
+                      <dd className="break-words text-success">{field.format(after) || '—'}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+              <SideBySideDiff
+                before={before.content ?? ''}
+                after={after.content ?? ''}
+                beforeLabel={versionLabel(before)}
+                afterLabel={versionLabel(after)}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-card h-fit">
+        <CardHeader className="pb-3">
+          <CardTitle className="font-serif text-base flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Versions
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {versions.map((version) => (
+            <div key={version.id} className="rounded-lg border border-border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">v{version.version}</span>
+                {version.id === current?.id && (
+                  <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+                    Current
+                  </Badge>
+                )}
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {new Date(version.created_at).toLocaleString()}
+                </span>
+              </div>
+              {version.note && <p className="text-sm">{version.note}</p>}
+              <p className="text-xs text-muted-foreground">
+                {version.created_by ? authors[version.created_by] ?? 'Unknown user' : 'System'}
+              </p>
+              {version.id !== current?.id && (
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1 text-xs"
+                    onClick={() => compareWithCurrent(version)}
+                  >
+                    <GitCompare className="h-3 w-3" />
+                    Compare
+                  </Button>
+                  {canRestore && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1 text-xs"
+                      onClick={() => setRestoring(version)}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!restoring} onOpenChange={(open) => !open && setRestoring(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {restoring?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its text and details are saved as a new version; later versions stay in the history.
+              {restoring?.content !== current?.content &&
+                ' The restored text is re-indexed and has to be validated again before the assistant cites it.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={restore}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
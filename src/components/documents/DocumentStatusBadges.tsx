@@ -0,0 +1,65 @@
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { AlertCircle, CheckCircle, Clock, Database, Loader2 } from 'lucide-react';
+
+type IndexingStatus = 'queued' | 'indexing' | 'indexed' | 'failed';
+
+const INDEXING_STATUSES: Record<IndexingStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-muted text-muted-foreground' },
+  indexing: { label: 'Indexing', className: 'bg-accent/10 text-accent border-accent/20' },
+  indexed: { label: 'Indexed', className: 'bg-success/10 text-success border-success/20' },
+  failed: { label: 'Indexing failed', className: 'bg-destructive/10 text-destructive border-destructive/20' },
+};
+
+interface DocumentStatusBadgesProps {
+  validated: boolean | null;
+  validatorName?: string | null;
+  indexingStatus: string;
+  indexingError: string | null;
+}
+
+// Validation and embedding state of a document, as shown on the list and detail pages.
+export function DocumentStatusBadges({
+  validated,
+  validatorName,
+  indexingStatus,
+  indexingError,
+}: DocumentStatusBadgesProps) {
+  const status = (indexingStatus in INDEXING_STATUSES ? indexingStatus : 'queued') as IndexingStatus;
+
+  return (
+    <>
+      {validated ? (
+        <Badge variant="outline" className="gap-1 bg-success/10 text-success border-success/20">
+          <CheckCircle className="h-3 w-3" />
+          Validated{validatorName ? ` by ${validatorName}` : ''}
+        </Badge>
+      ) : (
+        <Badge variant="outline" className="gap-1 bg-warning/10 text-warning border-warning/20">
+          <Clock className="h-3 w-3" />
+          Pending
+        </Badge>
+      )}
+      {status === 'failed' && indexingError ? (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge variant="outline" className={`gap-1 ${INDEXING_STATUSES.failed.className}`}>
+              <AlertCircle className="h-3 w-3" />
+              {INDEXING_STATUSES.failed.label}
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent className="max-w-xs">{indexingError}</TooltipContent>
+        </Tooltip>
+      ) : (
+        <Badge variant="outline" className={`gap-1 ${INDEXING_STATUSES[status].className}`}>
+          {status === 'indexing' ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <Database className="h-3 w-3" />
+          )}
+          {INDEXING_STATUSES[status].label}
+        </Badge>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { CheckCircle, Clock, Download, FileText, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getDomainLabel } from '@/lib/legal';
+import { getOriginalDownloadUrl } from '@/lib/document-files';
+import type { ChatSource } from '@/components/chat/ChatMessage';
+
+interface ViewerDocument {
+  id: string;
+  title: string;
+  description: string | null;
+  content: string | null;
+  domain: string;
+  jurisdiction: string | null;
+  year: number | null;
+  tags: string[] | null;
+  validated: boolean | null;
+  validated_by: string | null;
+  file_path: string | null;
+  file_name: string | null;
+  page_count: number | null;
+  version: number;
+}
+
+interface ChunkMetadata {
+  char_start?: number;
+  char_end?: number;
+  heading?: string | null;
+  page?: number | null;
+}
+
+interface DocumentViewerSheetProps {
+  source: ChatSource | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Prefer the stored offsets; fall back to searching the text in case the document was re-chunked.
+function locateChunk(content: string, chunkText: string | undefined, metadata: ChunkMetadata | null) {
+  if (metadata?.char_start !== undefined && metadata?.char_end !== undefined) {
+    const slice = content.slice(metadata.char_start, metadata.char_end);
+    if (!chunkText || slice === chunkText) {
+      return { start: metadata.char_start, end: metadata.char_end };
+    }
+  }
+
+  if (chunkText) {
+    const start = content.indexOf(chunkText);
+    if (start !== -1) return { start, end: start + chunkText.length };
+  }
+
+  return null;
+}
+
+export function DocumentViewerSheet({ source, onOpenChange }: DocumentViewerSheetProps) {
+  const [document, setDocument] = useState<ViewerDocument | null>(null);
+  const [highlight, setHighlight] = useState<{ start: number; end: number } | null>(null);
+  const [chunkMetadata, setChunkMetadata] = useState<ChunkMetadata | null>(null);
+  const [validatorName, setValidatorName] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  // The version the answer cited, when the document has been amended since
+  const [citedVersion, setCitedVersion] = useState<number | null>(null);
+  const { toast } = useToast();
+  const highlightRef = useRef<HTMLElement>(null);
+
+  const documentId = source?.document_id;
+  const chunkIndex = source?.chunk_index;
+  const sourceExcerpt = source?.excerpt;
+  const sourceVersion = source?.version;
+
+  useEffect(() => {
+    if (!documentId) return;
+
+    const fetchDocument = async () => {
+      setIsLoading(true);
+      setDocument(null);
+      setHighlight(null);
+      setChunkMetadata(null);
+      setValidatorName(null);
+      setCitedVersion(null);
+
+      const [{ data: doc, error }, { data: indexedChunk }] = await Promise.all([
+        supabase.from('legal_documents').select('*').eq('id', documentId).maybeSingle(),
+        chunkIndex !== undefined
+          ? supabase
+              .from('document_embeddings')
+              .select('chunk_text, metadata, document_version')
+              .eq('document_id', documentId)
+              .eq('chunk_index', chunkIndex)
+              .maybeSingle()
+          : Promise.resolve({ data: null }),
+      ]);
+
+      if (error || !doc) {
+        console.error('Error fetching document:', error);
+        setIsLoading(false);
+        return;
+      }
+
+      // After a re-index the same chunk number may cover another passage of other wording.
+      const chunk =
+        indexedChunk && (!sourceVersion || indexedChunk.document_version === sourceVersion)
+          ? indexedChunk
+          : null;
+      const metadata = (chunk?.metadata as ChunkMetadata | null) ?? null;
+      const excerpt = sourceExcerpt?.replace(/…$/, '');
+      let shown = doc as ViewerDocument;
+
+      // Show the wording the answer actually cited, not the amended text.
+      if (sourceVersion && sourceVersion !== doc.version) {
+        const { data: cited } = await supabase
+          .from('legal_document_versions')
+          .select('title, description, content')
+          .eq('document_id', documentId)
+          .eq('version', sourceVersion)
+          .maybeSingle();
+
+        if (cited) {
+          shown = { ...shown, ...cited };
+          setCitedVersion(sourceVersion);
+        }
+      }
+
+      setDocument(shown);
+      setChunkMetadata(metadata);
+      setHighlight(
+        locateChunk(shown.content ?? '', chunk?.chunk_text, metadata) ??
+          locateChunk(shown.content ?? '', excerpt, null)
+      );
+
+      if (doc.validated_by) {
+        const { data: names } = await supabase.rpc('get_display_names', {
+          _user_ids: [doc.validated_by],
+        });
+        setValidatorName(names?.[0]?.full_name ?? null);
+      }
+
+      setIsLoading(false);
+    };
+
+    fetchDocument();
+  }, [documentId, chunkIndex, sourceExcerpt, sourceVersion]);
+
+  // Bring the cited passage into view once the content has rendered
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [document, highlight]);
+
+  const content = document?.content ?? '';
+
+  const downloadOriginal = async () => {
+    if (!document?.file_path) return;
+
+    setIsDownloading(true);
+    try {
+      window.location.assign(await getOriginalDownloadUrl(document.file_path, document.file_name));
+    } catch (error) {
+      toast({
+        title: 'Download failed',
+        description: error instanceof Error ? error.message : 'Could not download the original file.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Sheet open={!!source} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="font-serif pr-6">{document?.title ?? source?.title}</SheetTitle>
+          <SheetDescription>
+            {document?.description || 'Cited passage is highlighted below.'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {document && (
+          <div className="flex flex-wrap gap-2">
+            {document.validated ? (
+              <Badge variant="outline" className="gap-1 bg-success/10 text-success border-success/20">
+                <CheckCircle className="h-3 w-3" />
+                Validated{validatorName ? ` by ${validatorName}` : ''}
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="gap-1 bg-warning/10 text-warning border-warning/20">
+                <Clock className="h-3 w-3" />
+                Pending
+              </Badge>
+            )}
+            <Badge variant="secondary">{getDomainLabel(document.domain)}</Badge>
+            {document.jurisdiction && <Badge variant="outline">{document.jurisdiction}</Badge>}
+            {document.year && <Badge variant="outline">{document.year}</Badge>}
+            {document.tags?.map((tag) => (
+              <Badge key={tag} variant="outline" className="bg-muted">
+                {tag}
+              </Badge>
+            ))}
+            {document.page_count && <Badge variant="outline">{document.page_count} pages</Badge>}
+            {document.file_path && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto h-6 gap-1 text-xs"
+                onClick={downloadOriginal}
+                disabled={isDownloading}
+              >
+                {isDownloading ? <Loader2 className="h-3 w-3 animate-spin" /> : <Download className="h-3 w-3" />}
+                Download original
+              </Button>
+            )}
+          </div>
+        )}
+
+        {citedVersion && document && (
+          <p className="text-xs text-warning">
+            Cited from version {citedVersion}. The document has been amended since and is now at version{' '}
+            {document.version}.
+          </p>
+        )}
+
+        {chunkMetadata && (chunkMetadata.heading || chunkMetadata.page) && (
+          <p className="text-xs text-muted-foreground">
+            Cited passage
+            {chunkMetadata.heading && <> · {chunkMetadata.heading}</>}
+            {chunkMetadata.page && <> · page {chunkMetadata.page}</>}
+          </p>
+        )}
+
+        <div className="flex-1 overflow-y-auto rounded-lg border border-border bg-muted/30 p-4">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-5/6" />
+              <Skeleton className="h-4 w-4/6" />
+            </div>
+          ) : document && content ? (
+            <div className="whitespace-pre-wrap text-sm leading-relaxed text-foreground">
+              {highlight ? (
+                <>
+                  {content.slice(0, highlight.start)}
+                  <mark ref={highlightRef} className="bg-secondary/30 text-foreground rounded px-0.5">
+                    {content.slice(highlight.start, highlight.end)}
+                  </mark>
+                  {content.slice(highlight.end)}
+                </>
+              ) : (
+                content
+              )}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">This document is no longer available.</p>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
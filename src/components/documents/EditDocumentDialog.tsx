@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { DocumentFormFields } from '@/components/documents/DocumentFormFields';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { DocumentFormValues, EMPTY_DOCUMENT_FORM, toDocumentColumns, toFormValues } from '@/lib/document-form';
+
+interface EditDocumentDialogProps {
+  // The document to edit; the dialog is open while it is set
+  documentId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+export function EditDocumentDialog({ documentId, onOpenChange, onSaved }: EditDocumentDialogProps) {
+  const { toast } = useToast();
+  const [original, setOriginal] = useState<DocumentFormValues | null>(null);
+  const [values, setValues] = useState<DocumentFormValues>(EMPTY_DOCUMENT_FORM);
+  const [wasValidated, setWasValidated] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    if (!documentId) return;
+
+    const fetchDocument = async () => {
+      setOriginal(null);
+      setLoadFailed(false);
+
+      const { data, error } = await supabase
+        .from('legal_documents')
+        .select('title, description, domain, jurisdiction, year, tags, content, validated')
+        .eq('id', documentId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching document:', error);
+        setLoadFailed(true);
+        return;
+      }
+
+      const loaded = toFormValues(data);
+      setOriginal(loaded);
+      setValues(loaded);
+      setWasValidated(!!data.validated);
+    };
+
+    fetchDocument();
+  }, [documentId]);
+
+  const contentChanged = !!original && values.content !== original.content;
+  const isDirty = !!original && JSON.stringify(values) !== JSON.stringify(original);
+
+  const handleSave = async () => {
+    if (!documentId || !original) return;
+
+    if (!values.title.trim() || (original.content && !values.content.trim())) {
+      toast({
+        title: 'Missing required fields',
+        description: 'Please fill in title and content.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    // The database withdraws validation, re-queues indexing and logs the edit when content changes.
+    const { error } = await supabase
+      .from('legal_documents')
+      .update({
+        ...toDocumentColumns(values),
+        ...(contentChanged ? { content: values.content } : {}),
+      })
+      .eq('id', documentId);
+
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: 'Save failed', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({
+      title: 'Document saved',
+      description: contentChanged
+        ? 'The new content is being indexed and needs to be validated again.'
+        : 'The document details have been updated.',
+    });
+
+    onOpenChange(false);
+    onSaved();
+
+    if (contentChanged) {
+      const { error: indexError } = await supabase.functions.invoke('ingest-document', {
+        body: { documentId },
+      });
+
+      if (indexError) {
+        toast({ title: 'Indexing failed', description: indexError.message, variant: 'destructive' });
+      }
+      onSaved();
+    }
+  };
+
+  return (
+    <Dialog open={!!documentId} onOpenChange={(open) => !isSaving && onOpenChange(open)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif">Edit Legal Document</DialogTitle>
+          <DialogDescription>Update the document's details or correct its text.</DialogDescription>
+        </DialogHeader>
+
+        {original ? (
+          <DocumentFormFields values={values} onChange={setValues} />
+        ) : loadFailed ? (
+          <p className="py-12 text-center text-muted-foreground">This document could not be loaded.</p>
+        ) : (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {contentChanged && (
+          <Alert className="border-warning/30 bg-warning/10">
+            <AlertTriangle className="h-4 w-4 text-warning" />
+            <AlertDescription>
+              {wasValidated
+                ? 'Changing the content withdraws validation: the assistant stops citing this document until it is validated again.'
+                : 'The document will be re-indexed with the new content.'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+            {isSaving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
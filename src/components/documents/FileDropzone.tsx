@@ -0,0 +1,97 @@
+import { useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { ACCEPT_ATTRIBUTE } from '@/lib/document-files';
+import { FileText, Upload, X } from 'lucide-react';
+
+interface FileDropzoneProps {
+  file: File | null;
+  onFileChange: (file: File | null) => void;
+  accept?: string;
+  hint?: string;
+  disabled?: boolean;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export function FileDropzone({
+  file,
+  onFileChange,
+  accept = ACCEPT_ATTRIBUTE,
+  hint = 'PDF, DOCX, HTML or plain text, up to 20 MB',
+  disabled,
+}: FileDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+
+    const dropped = e.dataTransfer.files[0];
+    if (dropped) onFileChange(dropped);
+  };
+
+  if (file) {
+    return (
+      <div className="flex items-center gap-3 rounded-lg border border-border bg-muted/30 p-3">
+        <FileText className="h-8 w-8 text-primary shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-foreground truncate">{file.name}</p>
+          <p className="text-xs text-muted-foreground">{formatSize(file.size)}</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onFileChange(null)}
+          disabled={disabled}
+          aria-label="Remove file"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={() => !disabled && inputRef.current?.click()}
+      onKeyDown={(e) => {
+        if ((e.key === 'Enter' || e.key === ' ') && !disabled) {
+          e.preventDefault();
+          inputRef.current?.click();
+        }
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={cn(
+        'flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-border p-6 text-center transition-colors cursor-pointer',
+        isDragging && 'border-primary bg-primary/5',
+        disabled && 'cursor-not-allowed opacity-50'
+      )}
+    >
+      <Upload className="h-8 w-8 text-muted-foreground" />
+      <p className="text-sm text-foreground">Drop a file here or click to browse</p>
+      <p className="text-xs text-muted-foreground">{hint}</p>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        className="hidden"
+        onChange={(e) => {
+          const selected = e.target.files?.[0];
+          if (selected) onFileChange(selected);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useAuth } from '@/lib/auth';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { UsageMeter } from '@/components/layout/UsageMeter';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -13,6 +14,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import {
+  BarChart3,
   Scale,
   MessageSquare,
   FileText,
@@ -22,6 +24,7 @@ import {
   Menu,
   X,
   Shield,
+  SlidersHorizontal,
 } from 'lucide-react';
 
 interface AppLayoutProps {
@@ -44,7 +47,9 @@ export function AppLayout({ children, sidebar }: AppLayoutProps) {
     { path: '/chat', label: 'Chat', icon: MessageSquare, roles: ['user', 'legal_analyst', 'admin'] },
     { path: '/documents', label: 'Documents', icon: FileText, roles: ['legal_analyst', 'admin'] },
     { path: '/users', label: 'Users', icon: Users, roles: ['admin'] },
+    { path: '/usage', label: 'Usage', icon: BarChart3, roles: ['admin'] },
     { path: '/logs', label: 'System Logs', icon: Settings, roles: ['admin'] },
+    { path: '/settings', label: 'Settings', icon: SlidersHorizontal, roles: ['admin'] },
   ];
 
   const visibleNavItems = navItems.filter((item) => role && item.roles.includes(role));
@@ -99,7 +104,7 @@ export function AppLayout({ children, sidebar }: AppLayoutProps) {
         <nav className="flex-1 p-4 space-y-1">
           {visibleNavItems.map((item) => {
             const Icon = item.icon;
-            const isActive = location.pathname === item.path;
+            const isActive = location.pathname === item.path || location.pathname.startsWith(`${item.path}/`);
 
             return (
               <Link
@@ -121,6 +126,7 @@ export function AppLayout({ children, sidebar }: AppLayoutProps) {
 
         {/* User section */}
         <div className="p-4 border-t border-sidebar-border">
+          <UsageMeter />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <button className="flex items-center gap-3 w-full p-2 rounded-lg hover:bg-sidebar-accent/50 transition-colors">
@@ -0,0 +1,76 @@
+import { cn } from '@/lib/utils';
+import { Progress } from '@/components/ui/progress';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useUsageStatus } from '@/lib/usage';
+import { Gauge } from 'lucide-react';
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+function Allowance({ label, used, limit }: { label: string; used: number; limit: number }) {
+  const ratio = limit > 0 ? Math.min(1, used / limit) : 1;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-sidebar-foreground/80">
+        <span>{label}</span>
+        <span className="tabular-nums">{formatNumber(Math.max(0, limit - used))} left</span>
+      </div>
+      <Progress
+        value={ratio * 100}
+        className={cn('h-1.5 bg-sidebar-accent', ratio >= 0.9 && '[&>div]:bg-destructive')}
+      />
+    </div>
+  );
+}
+
+// Remaining allowance for the signed-in user's role; hidden when it is unlimited.
+export function UsageMeter() {
+  const usage = useUsageStatus();
+
+  if (!usage) return null;
+
+  // Message limits are the easiest to read; token limits show when a role only has those.
+  const allowances = [
+    usage.daily_messages !== null
+      ? { label: 'Messages today', used: usage.messages_today, limit: usage.daily_messages }
+      : usage.daily_tokens !== null
+        ? { label: 'Tokens today', used: usage.tokens_today, limit: usage.daily_tokens }
+        : null,
+    usage.monthly_messages !== null
+      ? { label: 'Messages this month', used: usage.messages_this_month, limit: usage.monthly_messages }
+      : usage.monthly_tokens !== null
+        ? { label: 'Tokens this month', used: usage.tokens_this_month, limit: usage.monthly_tokens }
+        : null,
+  ].filter(Boolean) as { label: string; used: number; limit: number }[];
+
+  if (allowances.length === 0) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="space-y-2 rounded-lg px-2 py-3 cursor-default">
+          <div className="flex items-center gap-2 text-xs font-medium text-sidebar-foreground">
+            <Gauge className="h-3 w-3" />
+            Usage
+          </div>
+          {allowances.map((allowance) => (
+            <Allowance key={allowance.label} {...allowance} />
+          ))}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="right" className="text-xs space-y-1">
+        <p>
+          Tokens today: {formatNumber(usage.tokens_today)}
+          {usage.daily_tokens !== null && ` of ${formatNumber(usage.daily_tokens)}`}
+        </p>
+        <p>
+          Tokens this month: {formatNumber(usage.tokens_this_month)}
+          {usage.monthly_tokens !== null && ` of ${formatNumber(usage.monthly_tokens)}`}
+        </p>
+        <p className="text-muted-foreground">
+          Daily limits reset {new Date(usage.day_resets_at).toLocaleString()}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
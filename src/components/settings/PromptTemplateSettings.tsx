@@ -0,0 +1,352 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { SideBySideDiff } from '@/components/diff/SideBySideDiff';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GitCompare, History, Loader2, RotateCcw, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { DOMAINS, getDomainLabel, LegalDomain } from '@/lib/legal';
+
+type TemplateName = 'system' | 'answer_format';
+
+interface PromptVersion {
+  id: string;
+  name: string;
+  domain: LegalDomain | null;
+  version: number;
+  content: string;
+  note: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+const TEMPLATES: { value: TemplateName; label: string; description: string }[] = [
+  {
+    value: 'system',
+    label: 'System prompt',
+    description: 'Who LexAdvisor is and the guidelines every answer follows.',
+  },
+  {
+    value: 'answer_format',
+    label: 'Answer format',
+    description: 'How answers are structured and what they end with.',
+  },
+];
+
+const DEFAULT_DOMAIN = 'default';
+
+export function PromptTemplateSettings() {
+  const { toast } = useToast();
+  const [name, setName] = useState<TemplateName>('system');
+  const [domain, setDomain] = useState<LegalDomain | typeof DEFAULT_DOMAIN>(DEFAULT_DOMAIN);
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  // Active default template, shown when an area of law has no override
+  const [fallback, setFallback] = useState<PromptVersion | null>(null);
+  const [authors, setAuthors] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+  const [compared, setCompared] = useState<PromptVersion | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isOverride = domain !== DEFAULT_DOMAIN;
+  const active = versions.find((v) => v.is_active) ?? null;
+  const current = active ?? (isOverride ? fallback : null);
+
+  const fetchVersions = useCallback(async () => {
+    setIsLoading(true);
+
+    const query = supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('name', name)
+      .order('version', { ascending: false });
+    const [{ data, error }, { data: defaults }] = await Promise.all([
+      isOverride ? query.eq('domain', domain) : query.is('domain', null),
+      supabase
+        .from('prompt_templates')
+        .select('*')
+        .eq('name', name)
+        .is('domain', null)
+        .eq('is_active', true)
+        .maybeSingle(),
+    ]);
+
+    if (error) {
+      console.error('Error fetching prompt templates:', error);
+      setIsLoading(false);
+      return;
+    }
+
+    const loaded = (data || []) as PromptVersion[];
+    setVersions(loaded);
+    setFallback((defaults as PromptVersion | null) ?? null);
+
+    const shown = loaded.find((v) => v.is_active) ?? (isOverride ? defaults : null);
+    setDraft(shown?.content ?? '');
+    setNote('');
+
+    const authorIds = [...new Set(loaded.map((v) => v.created_by).filter(Boolean))] as string[];
+    if (authorIds.length > 0) {
+      const { data: names } = await supabase.rpc('get_display_names', { _user_ids: authorIds });
+      setAuthors(Object.fromEntries((names || []).map((n) => [n.user_id, n.full_name])));
+    }
+
+    setIsLoading(false);
+  }, [name, domain, isOverride]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const publish = async () => {
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('publish_prompt_template', {
+      _name: name,
+      _content: draft.trim(),
+      _domain: domain === DEFAULT_DOMAIN ? undefined : domain,
+      _note: note,
+    });
+
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: 'Publish failed', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({
+      title: 'Prompt published',
+      description: 'LexAdvisor uses the new version within a minute.',
+    });
+    fetchVersions();
+  };
+
+  const restore = async (version: PromptVersion) => {
+    const { error } = await supabase.rpc('activate_prompt_template', { _id: version.id });
+
+    if (error) {
+      toast({ title: 'Restore failed', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: `Version ${version.version} restored` });
+    fetchVersions();
+  };
+
+  const removeOverride = async () => {
+    if (!active) return;
+
+    const { error } = await supabase
+      .from('prompt_templates')
+      .update({ is_active: false })
+      .eq('id', active.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({
+      title: 'Override removed',
+      description: `${getDomainLabel(domain)} questions use the default template again.`,
+    });
+    fetchVersions();
+  };
+
+  const template = TEMPLATES.find((t) => t.value === name)!;
+  const isUnchanged = draft.trim() === (current?.content ?? '').trim();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
+        <Tabs value={name} onValueChange={(value) => setName(value as TemplateName)}>
+          <TabsList>
+            {TEMPLATES.map((t) => (
+              <TabsTrigger key={t.value} value={t.value}>
+                {t.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <Select
+          value={domain}
+          onValueChange={(value) => setDomain(value as LegalDomain | typeof DEFAULT_DOMAIN)}
+        >
+          <SelectTrigger className="w-full sm:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_DOMAIN}>All areas of law (default)</SelectItem>
+            {DOMAINS.map((d) => (
+              <SelectItem key={d.value} value={d.value}>
+                {d.label} override
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="font-serif flex items-center gap-2">
+              {template.label}
+              {isOverride && <Badge variant="secondary">{getDomainLabel(domain)}</Badge>}
+              {active && <Badge variant="outline">v{active.version} active</Badge>}
+            </CardTitle>
+            <CardDescription>
+              {template.description}
+              {isOverride &&
+                (active
+                  ? ` Replaces the default for questions about ${getDomainLabel(domain).toLowerCase()} law.`
+                  : ' No override yet: these questions use the default template shown below.')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <>
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  className="min-h-[360px] font-mono text-sm"
+                />
+                <div className="space-y-2">
+                  <Label htmlFor="prompt-note">Change note</Label>
+                  <Input
+                    id="prompt-note"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="e.g., Stricter wording on sentencing questions"
+                  />
+                </div>
+                <div className="flex flex-wrap justify-end gap-2">
+                  {isOverride && active && (
+                    <Button variant="ghost" onClick={removeOverride}>
+                      Remove override
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={() => setDraft(current?.content ?? '')}
+                    disabled={isUnchanged}
+                  >
+                    Discard changes
+                  </Button>
+                  <Button
+                    onClick={publish}
+                    disabled={isSaving || isUnchanged || !draft.trim()}
+                    className="gap-2"
+                  >
+                    {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                    Publish version {(versions[0]?.version ?? 0) + 1}
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card h-fit">
+          <CardHeader>
+            <CardTitle className="font-serif flex items-center gap-2 text-lg">
+              <History className="h-4 w-4" />
+              Version history
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {versions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No versions published yet.</p>
+            ) : (
+              versions.map((version) => (
+                <div key={version.id} className="rounded-lg border border-border p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">v{version.version}</span>
+                    {version.is_active && (
+                      <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+                        Active
+                      </Badge>
+                    )}
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {new Date(version.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  {version.note && <p className="text-sm">{version.note}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {version.created_by ? authors[version.created_by] ?? 'Unknown admin' : 'Built-in'}
+                  </p>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1 text-xs"
+                      onClick={() => setCompared(version)}
+                    >
+                      <GitCompare className="h-3 w-3" />
+                      Compare
+                    </Button>
+                    {!version.is_active && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 gap-1 text-xs"
+                        onClick={() => restore(version)}
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!compared} onOpenChange={(open) => !open && setCompared(null)}>
+        <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-serif">Compare with version {compared?.version}</DialogTitle>
+            <DialogDescription>
+              Lines removed since that version are on the left, lines added in the editor on the right.
+            </DialogDescription>
+          </DialogHeader>
+          {compared && (
+            <SideBySideDiff
+              before={compared.content}
+              after={draft}
+              beforeLabel={`Version ${compared.version}`}
+              afterLabel={isUnchanged && active ? `Version ${active.version} (active)` : 'Editor'}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
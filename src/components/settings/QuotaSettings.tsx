@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+
+type AppRole = 'admin' | 'legal_analyst' | 'user';
+type LimitField = 'daily_messages' | 'monthly_messages' | 'daily_tokens' | 'monthly_tokens';
+
+interface RoleQuota {
+  role: AppRole;
+  daily_messages: number | null;
+  monthly_messages: number | null;
+  daily_tokens: number | null;
+  monthly_tokens: number | null;
+}
+
+const ROLE_LABELS: Record<AppRole, string> = {
+  user: 'User',
+  legal_analyst: 'Legal Analyst',
+  admin: 'Admin',
+};
+
+const LIMIT_FIELDS: { field: LimitField; label: string }[] = [
+  { field: 'daily_messages', label: 'Messages / day' },
+  { field: 'monthly_messages', label: 'Messages / month' },
+  { field: 'daily_tokens', label: 'Tokens / day' },
+  { field: 'monthly_tokens', label: 'Tokens / month' },
+];
+
+// Blank inputs mean unlimited
+type Draft = Record<LimitField, string>;
+
+const toDraft = (quota: RoleQuota): Draft =>
+  Object.fromEntries(LIMIT_FIELDS.map(({ field }) => [field, quota[field]?.toString() ?? ''])) as Draft;
+
+const parseLimit = (value: string) => (value.trim() ? Math.max(0, parseInt(value, 10) || 0) : null);
+
+export function QuotaSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [quotas, setQuotas] = useState<RoleQuota[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [savingRole, setSavingRole] = useState<AppRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchQuotas = async () => {
+      const { data, error } = await supabase
+        .from('role_quotas')
+        .select('role, daily_messages, monthly_messages, daily_tokens, monthly_tokens');
+
+      setIsLoading(false);
+
+      if (error) {
+        console.error('Error fetching quotas:', error);
+        return;
+      }
+
+      const order = Object.keys(ROLE_LABELS);
+      const loaded = (data || []).sort((a, b) => order.indexOf(a.role) - order.indexOf(b.role));
+      setQuotas(loaded);
+      setDrafts(Object.fromEntries(loaded.map((quota) => [quota.role, toDraft(quota)])));
+    };
+
+    fetchQuotas();
+  }, []);
+
+  const updateDraft = (role: AppRole, field: LimitField, value: string) => {
+    setDrafts((prev) => ({ ...prev, [role]: { ...prev[role], [field]: value } }));
+  };
+
+  const saveQuota = async (role: AppRole) => {
+    const draft = drafts[role];
+    setSavingRole(role);
+
+    const { data, error } = await supabase
+      .from('role_quotas')
+      .update({
+        daily_messages: parseLimit(draft.daily_messages),
+        monthly_messages: parseLimit(draft.monthly_messages),
+        daily_tokens: parseLimit(draft.daily_tokens),
+        monthly_tokens: parseLimit(draft.monthly_tokens),
+        updated_by: user?.id ?? null,
+      })
+      .eq('role', role)
+      .select('role, daily_messages, monthly_messages, daily_tokens, monthly_tokens')
+      .single();
+
+    setSavingRole(null);
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to save quota', variant: 'destructive' });
+      return;
+    }
+
+    setQuotas((prev) => prev.map((q) => (q.role === role ? data : q)));
+    setDrafts((prev) => ({ ...prev, [role]: toDraft(data) }));
+    toast({ title: 'Quota saved', description: `${ROLE_LABELS[role]} limits apply from the next message.` });
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="font-serif">Usage quotas</CardTitle>
+        <CardDescription>
+          Limits per role on answered messages and model tokens, counted per UTC day and month.
+          Leave a field blank for no limit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                {LIMIT_FIELDS.map(({ field, label }) => (
+                  <TableHead key={field}>{label}</TableHead>
+                ))}
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quotas.map((quota) => {
+                const draft = drafts[quota.role];
+                const isDirty = LIMIT_FIELDS.some(
+                  ({ field }) => parseLimit(draft[field]) !== quota[field]
+                );
+
+                return (
+                  <TableRow key={quota.role}>
+                    <TableCell className="font-medium">{ROLE_LABELS[quota.role]}</TableCell>
+                    {LIMIT_FIELDS.map(({ field }) => (
+                      <TableCell key={field}>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={draft[field]}
+                          onChange={(e) => updateDraft(quota.role, field, e.target.value)}
+                          placeholder="Unlimited"
+                          className="w-32"
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        onClick={() => saveQuota(quota.role)}
+                        disabled={!isDirty || savingRole === quota.role}
+                      >
+                        Save
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,29 +14,131 @@ export type Database = {
   }
   public: {
     Tables: {
+      conversation_shares: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          id: string
+          last_viewed_at: string | null
+          members_only: boolean
+          message_id: string | null
+          revoked_at: string | null
+          token: string
+          view_count: number
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          created_by: string
+          expires_at?: string | null
+          id?: string
+          last_viewed_at?: string | null
+          members_only?: boolean
+          message_id?: string | null
+          revoked_at?: string | null
+          token?: string
+          view_count?: number
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          created_by?: string
+          expires_at?: string | null
+          id?: string
+          last_viewed_at?: string | null
+          members_only?: boolean
+          message_id?: string | null
+          revoked_at?: string | null
+          token?: string
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_shares_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_shares_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
+          archived: boolean
+          auto_title: boolean
           created_at: string
+          current_message_id: string | null
+          domains: Database["public"]["Enums"]["legal_domain"][]
           id: string
+          jurisdiction: string | null
+          pinned: boolean
+          summary: string | null
+          summary_message_id: string | null
           title: string
           updated_at: string
           user_id: string
+          year_from: number | null
+          year_to: number | null
         }
         Insert: {
+          archived?: boolean
+          auto_title?: boolean
           created_at?: string
+          current_message_id?: string | null
+          domains?: Database["public"]["Enums"]["legal_domain"][]
           id?: string
+          jurisdiction?: string | null
+          pinned?: boolean
+          summary?: string | null
+          summary_message_id?: string | null
           title?: string
           updated_at?: string
           user_id: string
+          year_from?: number | null
+          year_to?: number | null
         }
         Update: {
+          archived?: boolean
+          auto_title?: boolean
           created_at?: string
+          current_message_id?: string | null
+          domains?: Database["public"]["Enums"]["legal_domain"][]
           id?: string
+          jurisdiction?: string | null
+          pinned?: boolean
+          summary?: string | null
+          summary_message_id?: string | null
           title?: string
           updated_at?: string
           user_id?: string
+          year_from?: number | null
+          year_to?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "conversations_current_message_id_fkey"
+            columns: ["current_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_summary_message_id_fkey"
+            columns: ["summary_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       document_embeddings: {
         Row: {
@@ -44,6 +146,7 @@ export type Database = {
           chunk_text: string
           created_at: string
           document_id: string
+          document_version: number | null
           embedding: string | null
           id: string
           metadata: Json | null
@@ -53,6 +156,7 @@ export type Database = {
           chunk_text: string
           created_at?: string
           document_id: string
+          document_version?: number | null
           embedding?: string | null
           id?: string
           metadata?: Json | null
@@ -62,6 +166,7 @@ export type Database = {
           chunk_text?: string
           created_at?: string
           document_id?: string
+          document_version?: number | null
           embedding?: string | null
           id?: string
           metadata?: Json | null
@@ -76,21 +181,85 @@ export type Database = {
           },
         ]
       }
+      legal_document_versions: {
+        Row: {
+          content: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          document_id: string
+          domain: Database["public"]["Enums"]["legal_domain"]
+          id: string
+          jurisdiction: string | null
+          note: string | null
+          tags: string[] | null
+          title: string
+          version: number
+          year: number | null
+        }
+        Insert: {
+          content?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          document_id: string
+          domain: Database["public"]["Enums"]["legal_domain"]
+          id?: string
+          jurisdiction?: string | null
+          note?: string | null
+          tags?: string[] | null
+          title: string
+          version: number
+          year?: number | null
+        }
+        Update: {
+          content?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          document_id?: string
+          domain?: Database["public"]["Enums"]["legal_domain"]
+          id?: string
+          jurisdiction?: string | null
+          note?: string | null
+          tags?: string[] | null
+          title?: string
+          version?: number
+          year?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "legal_document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "legal_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       legal_documents: {
         Row: {
           content: string | null
           created_at: string
           description: string | null
           domain: Database["public"]["Enums"]["legal_domain"]
+          file_name: string | null
           file_path: string | null
+          file_type: string | null
           id: string
+          indexed_at: string | null
+          indexed_version: number | null
+          indexing_error: string | null
+          indexing_status: string
           jurisdiction: string | null
+          page_count: number | null
           tags: string[] | null
           title: string
           updated_at: string
           uploaded_by: string | null
           validated: boolean | null
           validated_by: string | null
+          version: number
           year: number | null
         }
         Insert: {
@@ -98,15 +267,23 @@ export type Database = {
           created_at?: string
           description?: string | null
           domain?: Database["public"]["Enums"]["legal_domain"]
+          file_name?: string | null
           file_path?: string | null
+          file_type?: string | null
           id?: string
+          indexed_at?: string | null
+          indexed_version?: number | null
+          indexing_error?: string | null
+          indexing_status?: string
           jurisdiction?: string | null
+          page_count?: number | null
           tags?: string[] | null
           title: string
           updated_at?: string
           uploaded_by?: string | null
           validated?: boolean | null
           validated_by?: string | null
+          version?: number
           year?: number | null
         }
         Update: {
@@ -114,43 +291,87 @@ export type Database = {
           created_at?: string
           description?: string | null
           domain?: Database["public"]["Enums"]["legal_domain"]
+          file_name?: string | null
           file_path?: string | null
+          file_type?: string | null
           id?: string
+          indexed_at?: string | null
+          indexed_version?: number | null
+          indexing_error?: string | null
+          indexing_status?: string
           jurisdiction?: string | null
+          page_count?: number | null
           tags?: string[] | null
           title?: string
           updated_at?: string
           uploaded_by?: string | null
           validated?: boolean | null
           validated_by?: string | null
+          version?: number
           year?: number | null
         }
         Relationships: []
       }
       messages: {
         Row: {
+          completion_tokens: number | null
           content: string
           conversation_id: string
+          cost_usd: number | null
           created_at: string
+          embedding: string | null
+          first_token_ms: number | null
+          grounding: Json | null
           id: string
+          interrupted: boolean
+          latency_ms: number | null
+          model: string | null
+          parent_id: string | null
+          prompt_tokens: number | null
           role: string
+          search_vector: unknown
           sources: Json | null
+          usage_estimated: boolean
         }
         Insert: {
+          completion_tokens?: number | null
           content: string
           conversation_id: string
+          cost_usd?: number | null
           created_at?: string
+          embedding?: string | null
+          first_token_ms?: number | null
+          grounding?: Json | null
           id?: string
+          interrupted?: boolean
+          latency_ms?: number | null
+          model?: string | null
+          parent_id?: string | null
+          prompt_tokens?: number | null
           role: string
+          search_vector?: never
           sources?: Json | null
+          usage_estimated?: boolean
         }
         Update: {
+          completion_tokens?: number | null
           content?: string
           conversation_id?: string
+          cost_usd?: number | null
           created_at?: string
+          embedding?: string | null
+          first_token_ms?: number | null
+          grounding?: Json | null
           id?: string
+          interrupted?: boolean
+          latency_ms?: number | null
+          model?: string | null
+          parent_id?: string | null
+          prompt_tokens?: number | null
           role?: string
+          search_vector?: never
           sources?: Json | null
+          usage_estimated?: boolean
         }
         Relationships: [
           {
@@ -160,6 +381,13 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -189,6 +417,72 @@ export type Database = {
         }
         Relationships: []
       }
+      prompt_templates: {
+        Row: {
+          content: string
+          created_at: string
+          created_by: string | null
+          domain: Database["public"]["Enums"]["legal_domain"] | null
+          id: string
+          is_active: boolean
+          name: string
+          note: string | null
+          version: number
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          created_by?: string | null
+          domain?: Database["public"]["Enums"]["legal_domain"] | null
+          id?: string
+          is_active?: boolean
+          name: string
+          note?: string | null
+          version: number
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          domain?: Database["public"]["Enums"]["legal_domain"] | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          note?: string | null
+          version?: number
+        }
+        Relationships: []
+      }
+      role_quotas: {
+        Row: {
+          daily_messages: number | null
+          daily_tokens: number | null
+          monthly_messages: number | null
+          monthly_tokens: number | null
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          daily_messages?: number | null
+          daily_tokens?: number | null
+          monthly_messages?: number | null
+          monthly_tokens?: number | null
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          daily_messages?: number | null
+          daily_tokens?: number | null
+          monthly_messages?: number | null
+          monthly_tokens?: number | null
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       system_logs: {
         Row: {
           action: string
@@ -213,6 +507,51 @@ export type Database = {
         }
         Relationships: []
       }
+      usage_ledger: {
+        Row: {
+          completion_tokens: number
+          conversation_id: string | null
+          created_at: string
+          id: string
+          message_id: string | null
+          prompt_tokens: number
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          conversation_id?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          prompt_tokens?: number
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          conversation_id?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          prompt_tokens?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_ledger_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_ledger_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -239,6 +578,115 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      activate_prompt_template: {
+        Args: { _id: string }
+        Returns: {
+          content: string
+          created_at: string
+          created_by: string | null
+          domain: Database["public"]["Enums"]["legal_domain"] | null
+          id: string
+          is_active: boolean
+          name: string
+          note: string | null
+          version: number
+        }
+      }
+      get_display_names: {
+        Args: { _user_ids: string[] }
+        Returns: {
+          full_name: string
+          user_id: string
+        }[]
+      }
+      get_document_citations: {
+        Args: { _document_id: string; _limit?: number }
+        Returns: {
+          answer: string
+          citations: Json
+          conversation_id: string
+          conversation_title: string
+          created_at: string
+          full_name: string
+          message_id: string
+          user_id: string
+        }[]
+      }
+      get_message_branch: {
+        Args: { _leaf_id: string }
+        Returns: {
+          completion_tokens: number | null
+          content: string
+          conversation_id: string
+          cost_usd: number | null
+          created_at: string
+          first_token_ms: number | null
+          grounding: Json | null
+          id: string
+          interrupted: boolean
+          latency_ms: number | null
+          model: string | null
+          parent_id: string | null
+          prompt_tokens: number | null
+          role: string
+          sources: Json | null
+          usage_estimated: boolean
+        }[]
+      }
+      get_usage_by_conversation: {
+        Args: { _from: string; _limit?: number; _to: string }
+        Returns: {
+          completion_tokens: number
+          conversation_id: string
+          cost_usd: number | null
+          full_name: string | null
+          last_message_at: string
+          messages: number
+          prompt_tokens: number
+          title: string
+          user_id: string
+        }[]
+      }
+      get_usage_by_day: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          avg_latency_ms: number | null
+          completion_tokens: number
+          cost_usd: number | null
+          day: string
+          estimated_messages: number
+          messages: number
+          prompt_tokens: number
+        }[]
+      }
+      get_usage_by_user: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          completion_tokens: number
+          conversations: number
+          cost_usd: number | null
+          full_name: string | null
+          messages: number
+          prompt_tokens: number
+          user_id: string
+        }[]
+      }
+      get_usage_status: {
+        Args: { _user_id: string }
+        Returns: {
+          daily_messages: number | null
+          daily_tokens: number | null
+          day_resets_at: string
+          messages_this_month: number
+          messages_today: number
+          month_resets_at: string
+          monthly_messages: number | null
+          monthly_tokens: number | null
+          role: Database["public"]["Enums"]["app_role"]
+          tokens_this_month: number
+          tokens_today: number
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -250,6 +698,75 @@ export type Database = {
         }
         Returns: boolean
       }
+      match_document_chunks: {
+        Args: {
+          filter_domains?: Database["public"]["Enums"]["legal_domain"][]
+          filter_jurisdiction?: string
+          filter_year_from?: number
+          filter_year_to?: number
+          match_count?: number
+          match_threshold?: number
+          query_embedding: string
+        }
+        Returns: {
+          chunk_index: number
+          chunk_text: string
+          document_id: string
+          document_version: number
+          domain: Database["public"]["Enums"]["legal_domain"]
+          id: string
+          jurisdiction: string
+          metadata: Json
+          similarity: number
+          title: string
+          year: number
+        }[]
+      }
+      publish_prompt_template: {
+        Args: {
+          _content: string
+          _domain?: Database["public"]["Enums"]["legal_domain"]
+          _name: string
+          _note?: string
+        }
+        Returns: {
+          content: string
+          created_at: string
+          created_by: string | null
+          domain: Database["public"]["Enums"]["legal_domain"] | null
+          id: string
+          is_active: boolean
+          name: string
+          note: string | null
+          version: number
+        }
+      }
+      record_share_view: { Args: { _share_id: string }; Returns: undefined }
+      replace_document_chunks: {
+        Args: { _chunks: Json; _content_hash: string; _document_id: string }
+        Returns: boolean
+      }
+      restore_document_version: { Args: { _version_id: string }; Returns: number }
+      search_messages: {
+        Args: {
+          _match_count?: number
+          _match_threshold?: number
+          _query: string
+          _query_embedding?: string
+          _user_id: string
+        }
+        Returns: {
+          conversation_id: string
+          conversation_title: string
+          created_at: string
+          message_id: string
+          rank: number
+          role: string
+          score: number
+          similarity: number
+          snippet: string
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "legal_analyst" | "user"
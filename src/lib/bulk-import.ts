@@ -0,0 +1,279 @@
+import { Constants } from '@/integrations/supabase/types';
+import type { LegalDomain } from '@/lib/legal';
+import { ACCEPTED_FILE_TYPES, titleFromFileName } from '@/lib/document-files';
+
+// One manifest entry before validation. Each row needs either a `file` in the ZIP or, for a
+// manifest imported on its own, the document's text in `content`.
+export interface ManifestRow {
+  // 1-based line (CSV) or position (JSON), for the report
+  row: number;
+  file: string;
+  content?: string;
+  title?: string;
+  description?: string;
+  domain?: string;
+  jurisdiction?: string;
+  year?: string;
+  tags?: string;
+}
+
+// A file inside the ZIP; sizes are checked when it is extracted for upload.
+export interface ArchiveFile {
+  path: string;
+}
+
+export interface ImportItem {
+  // Path inside the ZIP; null for rows whose text is in the manifest, or whose file is missing
+  path: string | null;
+  content: string | null;
+  row: number | null;
+  title: string;
+  description: string | null;
+  domain: LegalDomain;
+  jurisdiction: string | null;
+  year: number | null;
+  tags: string[] | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export type ImportStatus = 'pending' | 'importing' | 'imported' | 'failed' | 'skipped';
+
+const LEGAL_DOMAINS: readonly string[] = Constants.public.Enums.legal_domain;
+
+const MANIFEST_NAMES = ['manifest.csv', 'manifest.json'];
+
+const baseName = (path: string) => path.split('/').pop() ?? path;
+
+const COLUMN_ALIASES: Record<string, keyof Omit<ManifestRow, 'row'>> = {
+  file: 'file',
+  filename: 'file',
+  file_name: 'file',
+  path: 'file',
+  title: 'title',
+  description: 'description',
+  domain: 'domain',
+  jurisdiction: 'jurisdiction',
+  year: 'year',
+  tags: 'tags',
+  content: 'content',
+  text: 'content',
+};
+
+// RFC 4180: quoted fields may hold commas, line breaks and doubled quotes.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function toManifestRow(record: Record<string, unknown>, row: number): ManifestRow {
+  const entry: ManifestRow = { row, file: '' };
+
+  for (const [key, value] of Object.entries(record)) {
+    const field = COLUMN_ALIASES[key.trim().toLowerCase()];
+    if (!field || value === null || value === undefined) continue;
+    entry[field] = Array.isArray(value) ? value.join(';') : String(value).trim();
+  }
+
+  return entry;
+}
+
+// Reads a CSV with a header row, or a JSON array of objects (optionally under `documents`).
+export function parseManifest(text: string, fileName: string): ManifestRow[] {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    const parsed = JSON.parse(text);
+    const records = Array.isArray(parsed) ? parsed : parsed?.documents;
+    if (!Array.isArray(records)) {
+      throw new Error('The JSON manifest must be an array of documents');
+    }
+    return records.map((record, index) => toManifestRow(record ?? {}, index + 1));
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  const columns = header?.map((column) => COLUMN_ALIASES[column.trim().toLowerCase()]) ?? [];
+  if (!columns.includes('file') && !columns.includes('content')) {
+    throw new Error('The CSV manifest needs a header row with a "file" or "content" column');
+  }
+
+  return rows.map((cells, index) =>
+    toManifestRow(Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ''])), index + 2)
+  );
+}
+
+export function isManifestPath(path: string) {
+  return MANIFEST_NAMES.includes(baseName(path).toLowerCase());
+}
+
+// Folders, macOS metadata and hidden files are never documents.
+export function isIgnoredPath(path: string) {
+  return path.endsWith('/') || path.split('/').some((part) => part.startsWith('.') || part === '__MACOSX');
+}
+
+function splitTags(tags: string | undefined) {
+  const list = (tags ?? '')
+    .split(/[;,]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  return list.length ? list : null;
+}
+
+function isSupported(path: string) {
+  const extension = path.slice(path.lastIndexOf('.')).toLowerCase();
+  return Object.values(ACCEPTED_FILE_TYPES).some((extensions) => extensions.includes(extension));
+}
+
+function buildItem(file: ArchiveFile | null, entry: ManifestRow | null): ImportItem {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const name = file?.path ?? entry?.file ?? '';
+  const content = !entry?.file && entry?.content ? entry.content : null;
+
+  if (!file && !content) {
+    errors.push(`${entry?.file || 'The file'} is not in the ZIP`);
+  } else if (file && !isSupported(file.path)) {
+    errors.push('Unsupported file type; use PDF, DOCX, HTML or plain text');
+  }
+
+  const domain = entry?.domain?.toLowerCase().replace(/[\s-]+/g, '_') || 'general';
+  if (!LEGAL_DOMAINS.includes(domain)) {
+    errors.push(`Unknown domain "${entry?.domain}"; expected one of ${LEGAL_DOMAINS.join(', ')}`);
+  }
+
+  let year: number | null = null;
+  if (entry?.year) {
+    year = Number(entry.year);
+    if (!Number.isInteger(year) || year < 1000 || year > new Date().getFullYear() + 1) {
+      errors.push(`Invalid year "${entry.year}"`);
+      year = null;
+    }
+  }
+
+  if (!entry) {
+    warnings.push('Not in the manifest; imported with a title from its file name');
+  } else if (!entry.title) {
+    if (content) errors.push('A title is required for rows without a file');
+    else warnings.push('No title; using the file name');
+  }
+
+  return {
+    path: file?.path ?? null,
+    content,
+    row: entry?.row ?? null,
+    title: entry?.title || titleFromFileName(baseName(name)),
+    description: entry?.description || null,
+    domain: (LEGAL_DOMAINS.includes(domain) ? domain : 'general') as LegalDomain,
+    jurisdiction: entry?.jurisdiction || null,
+    year,
+    tags: splitTags(entry?.tags),
+    errors,
+    warnings,
+  };
+}
+
+// Dry run: pairs each manifest row with a file in the ZIP and validates it. Without a manifest
+// every file is imported with defaults. Nothing is written.
+export function planImport(files: ArchiveFile[], manifest: ManifestRow[] | null): ImportItem[] {
+  if (!manifest) {
+    return files.map((file) => ({ ...buildItem(file, null), warnings: [] }));
+  }
+
+  // Manifest paths may include the ZIP's top folder or just the file name.
+  const byPath = new Map(files.map((file) => [file.path.toLowerCase(), file]));
+  const byName = new Map<string, ArchiveFile[]>();
+  for (const file of files) {
+    const key = baseName(file.path).toLowerCase();
+    byName.set(key, [...(byName.get(key) ?? []), file]);
+  }
+
+  const claimed = new Set<string>();
+  const items = manifest.map((entry) => {
+    const key = entry.file.replace(/^\.?\//, '').toLowerCase();
+    const candidates = byName.get(baseName(key)) ?? [];
+    const file = byPath.get(key) ?? (candidates.length === 1 ? candidates[0] : null);
+
+    if (!entry.file && !entry.content) {
+      return { ...buildItem(null, entry), errors: ['Neither a file nor content is given'] };
+    }
+    if (!file && candidates.length > 1) {
+      return { ...buildItem(null, entry), errors: [`${entry.file} matches several files; use its full path`] };
+    }
+
+    const item = buildItem(file, entry);
+    if (file && claimed.has(file.path)) {
+      item.errors.push('Listed more than once in the manifest');
+    }
+    if (file) claimed.add(file.path);
+    return item;
+  });
+
+  const unlisted = files.filter((file) => !claimed.has(file.path)).map((file) => buildItem(file, null));
+  return [...items, ...unlisted];
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CSV of every row that was skipped or failed, with its reasons.
+export function buildErrorReport(
+  items: ImportItem[],
+  statuses: ImportStatus[],
+  failures: Record<number, string>
+): string {
+  const lines = [['manifest_row', 'file', 'title', 'status', 'error']];
+
+  items.forEach((item, index) => {
+    const status = statuses[index];
+    if (status !== 'failed' && status !== 'skipped') return;
+
+    const reasons = failures[index] ? [failures[index]] : item.errors;
+    lines.push([
+      item.row === null ? '' : String(item.row),
+      item.path ?? '',
+      item.title,
+      status,
+      reasons.join('; '),
+    ]);
+  });
+
+  return lines.map((line) => line.map(csvCell).join(',')).join('\r\n');
+}
@@ -0,0 +1,59 @@
+export interface ChatStreamHandlers {
+  // Called for each text delta of the model's answer
+  onDelta: (content: string) => void;
+  // Called for named SSE events emitted by legal-chat (sources, user_message, ...)
+  onEvent?: (event: string, data: unknown) => void;
+}
+
+// Reads the legal-chat SSE response: OpenAI-style `data:` chunks plus named `event:` frames.
+export async function readChatStream(response: Response, handlers: ChatStreamHandlers) {
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventName = 'message';
+
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      let line = buffer.slice(0, newlineIndex);
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (line.endsWith('\r')) line = line.slice(0, -1);
+      if (line.trim() === '') {
+        eventName = 'message';
+        continue;
+      }
+      if (line.startsWith(':')) continue;
+      if (line.startsWith('event: ')) {
+        eventName = line.slice(7).trim();
+        continue;
+      }
+      if (!line.startsWith('data: ')) continue;
+
+      const jsonStr = line.slice(6).trim();
+      if (jsonStr === '[DONE]') continue;
+
+      let parsed;
+      try {
+        parsed = JSON.parse(jsonStr);
+      } catch {
+        // Incomplete JSON split across reads: wait for the rest of the line
+        buffer = line + '\n' + buffer;
+        break;
+      }
+
+      if (eventName !== 'message') {
+        handlers.onEvent?.(eventName, parsed);
+        continue;
+      }
+
+      const content = parsed.choices?.[0]?.delta?.content as string | undefined;
+      if (content) handlers.onDelta(content);
+    }
+  }
+}
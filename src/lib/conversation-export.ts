@@ -0,0 +1,236 @@
+import { createElement } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { ChatSource } from '@/components/chat/ChatMessage';
+import { getDomainLabel, LEGAL_DISCLAIMER } from '@/lib/legal';
+
+type Docx = typeof import('docx');
+
+export type ExportFormat = 'markdown' | 'pdf' | 'docx';
+
+export interface ExportMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  sources?: ChatSource[] | null;
+  interrupted?: boolean;
+  created_at: string;
+}
+
+export interface ExportConversation {
+  title: string;
+  messages: ExportMessage[];
+}
+
+const INTERRUPTED_NOTE = 'Response stopped before it was complete.';
+
+const formatTimestamp = (value: string | Date) => new Date(value).toLocaleString();
+
+const speaker = (message: ExportMessage) => (message.role === 'user' ? 'You' : 'LexAdvisor');
+
+function describeSource(source: ChatSource) {
+  return [source.title, source.domain && getDomainLabel(source.domain), source.jurisdiction]
+    .filter(Boolean)
+    .join(' — ');
+}
+
+// Every document cited anywhere in the conversation, once, in order of first citation.
+export function buildBibliography(messages: ExportMessage[]): string[] {
+  const seen = new Map<string, string>();
+
+  for (const message of messages) {
+    for (const source of message.sources ?? []) {
+      const key = source.document_id ?? source.title;
+      if (!seen.has(key)) seen.set(key, describeSource(source));
+    }
+  }
+
+  return [...seen.values()];
+}
+
+export function toMarkdown(conversation: ExportConversation): string {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `Exported ${formatTimestamp(new Date())}`,
+    '',
+    `> ${LEGAL_DISCLAIMER}`,
+  ];
+
+  for (const message of conversation.messages) {
+    lines.push('', '---', '', `### ${speaker(message)} — ${formatTimestamp(message.created_at)}`, '');
+    lines.push(message.content);
+
+    if (message.interrupted) lines.push('', `_${INTERRUPTED_NOTE}_`);
+
+    // Answers cite by [n], so list the sources under the same numbers
+    if (message.sources?.length) {
+      lines.push('', '**Sources**', '');
+      message.sources.forEach((source, index) => {
+        lines.push(`- [${source.index ?? index + 1}] ${describeSource(source)}`);
+      });
+    }
+  }
+
+  const bibliography = buildBibliography(conversation.messages);
+  if (bibliography.length > 0) {
+    lines.push('', '---', '', '## Bibliography', '');
+    bibliography.forEach((entry) => lines.push(`- ${entry}`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function exportFileName(title: string, extension: string) {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 60);
+  return `${slug || 'conversation'}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1a1a1a; line-height: 1.5; margin: 2cm; }
+  h1 { font-size: 20pt; margin-bottom: 0; }
+  h3 { font-size: 12pt; margin-top: 1.5em; }
+  blockquote { border-left: 3px solid #999; margin-left: 0; padding-left: 1em; color: #555; font-style: italic; }
+  hr { border: none; border-top: 1px solid #ccc; margin: 1.5em 0; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+  @page { margin: 0; }
+`;
+
+// Renders the Markdown export and opens the browser's print dialog, where it can be saved as PDF.
+export async function printConversation(conversation: ExportConversation) {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const body = renderToStaticMarkup(
+    createElement(ReactMarkdown, { remarkPlugins: [remarkGfm], skipHtml: true }, toMarkdown(conversation))
+  );
+
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = `<!doctype html><html><head><meta charset="utf-8"><title></title><style>${PRINT_STYLES}</style></head><body>${body}</body></html>`;
+
+  frame.onload = () => {
+    const printWindow = frame.contentWindow;
+    if (!printWindow) return;
+    // The document title becomes the suggested PDF file name
+    printWindow.document.title = conversation.title;
+    printWindow.addEventListener('afterprint', () => frame.remove());
+    printWindow.print();
+  };
+
+  document.body.appendChild(frame);
+}
+
+// Inline **bold**, *italic* and [links](url) as docx text runs; other markup is kept as text.
+function toTextRuns({ TextRun }: Docx, text: string) {
+  const plain = text.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1').replace(/`([^`]+)`/g, '$1');
+
+  return plain
+    .split(/(\*\*[^*]+\*\*|\*[^*]+\*)/)
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith('**') && part.endsWith('**')
+        ? new TextRun({ text: part.slice(2, -2), bold: true })
+        : part.startsWith('*') && part.endsWith('*') && part.length > 2
+          ? new TextRun({ text: part.slice(1, -1), italics: true })
+          : new TextRun(part)
+    );
+}
+
+// Line-based conversion of an answer's Markdown into headings, bullets, quotes and paragraphs.
+function toParagraphs(docx: Docx, markdown: string) {
+  const { HeadingLevel, Paragraph } = docx;
+  const headingLevels = [HeadingLevel.HEADING_3, HeadingLevel.HEADING_4, HeadingLevel.HEADING_5];
+  const paragraphs = [];
+
+  for (const line of markdown.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || /^(-{3,}|\*{3,})$/.test(trimmed)) continue;
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = trimmed.match(/^[-*+]\s+(.*)$/);
+    const quote = trimmed.match(/^>\s?(.*)$/);
+
+    if (heading) {
+      paragraphs.push(
+        new Paragraph({
+          heading: headingLevels[Math.min(heading[1].length, headingLevels.length) - 1],
+          children: toTextRuns(docx, heading[2]),
+        })
+      );
+    } else if (bullet) {
+      paragraphs.push(new Paragraph({ bullet: { level: 0 }, children: toTextRuns(docx, bullet[1]) }));
+    } else if (quote) {
+      paragraphs.push(new Paragraph({ indent: { left: 720 }, children: toTextRuns(docx, quote[1]) }));
+    } else {
+      paragraphs.push(new Paragraph({ children: toTextRuns(docx, trimmed) }));
+    }
+  }
+
+  return paragraphs;
+}
+
+export async function toDocx(conversation: ExportConversation): Promise<Blob> {
+  const docx = await import('docx');
+  const { Document, HeadingLevel, Packer, Paragraph, TextRun } = docx;
+
+  const children = [
+    new Paragraph({ heading: HeadingLevel.TITLE, text: conversation.title }),
+    new Paragraph({ text: `Exported ${formatTimestamp(new Date())}` }),
+    new Paragraph({ children: [new TextRun({ text: LEGAL_DISCLAIMER, italics: true })] }),
+  ];
+
+  for (const message of conversation.messages) {
+    children.push(
+      new Paragraph({
+        heading: HeadingLevel.HEADING_2,
+        text: `${speaker(message)} — ${formatTimestamp(message.created_at)}`,
+      }),
+      ...toParagraphs(docx, message.content)
+    );
+
+    if (message.interrupted) {
+      children.push(new Paragraph({ children: [new TextRun({ text: INTERRUPTED_NOTE, italics: true })] }));
+    }
+
+    if (message.sources?.length) {
+      children.push(new Paragraph({ children: [new TextRun({ text: 'Sources', bold: true })] }));
+      message.sources.forEach((source, index) => {
+        children.push(
+          new Paragraph({
+            bullet: { level: 0 },
+            text: `[${source.index ?? index + 1}] ${describeSource(source)}`,
+          })
+        );
+      });
+    }
+  }
+
+  const bibliography = buildBibliography(conversation.messages);
+  if (bibliography.length > 0) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, text: 'Bibliography' }));
+    bibliography.forEach((entry) => children.push(new Paragraph({ bullet: { level: 0 }, text: entry })));
+  }
+
+  const file = new Document({
+    title: conversation.title,
+    sections: [{ children }],
+  });
+
+  return Packer.toBlob(file);
+}
@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Private bucket holding the originals behind uploaded documents; its size and type limits are
+// set in the migration and mirrored here so the upload form can reject files early.
+export const DOCUMENTS_BUCKET = 'legal-documents';
+export const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+// Formats ingest-document can extract text from
+export const ACCEPTED_FILE_TYPES: Record<string, string[]> = {
+  'application/pdf': ['.pdf'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'text/html': ['.html', '.htm'],
+  'text/plain': ['.txt'],
+  'text/markdown': ['.md'],
+};
+
+const ACCEPTED_EXTENSIONS = Object.values(ACCEPTED_FILE_TYPES).flat();
+
+export const ACCEPT_ATTRIBUTE = [...Object.keys(ACCEPTED_FILE_TYPES), ...ACCEPTED_EXTENSIONS].join(',');
+
+function extensionOf(fileName: string) {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+}
+
+// Browsers often report an empty or generic type for .md and .docx; fall back to the extension.
+export function fileTypeOf(file: File): string | null {
+  if (ACCEPTED_FILE_TYPES[file.type]) return file.type;
+
+  const extension = extensionOf(file.name);
+  return Object.keys(ACCEPTED_FILE_TYPES).find((type) => ACCEPTED_FILE_TYPES[type].includes(extension)) ?? null;
+}
+
+// Returns why the file can't be uploaded, or null when it can.
+export function validateDocumentFile(file: File): string | null {
+  if (!fileTypeOf(file)) {
+    return `${file.name} is not a supported file. Use PDF, DOCX, HTML or plain text.`;
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    return `${file.name} is larger than ${MAX_FILE_SIZE / 1024 / 1024} MB.`;
+  }
+  return null;
+}
+
+export function titleFromFileName(fileName: string) {
+  const dot = fileName.lastIndexOf('.');
+  return (dot > 0 ? fileName.slice(0, dot) : fileName).replace(/[_-]+/g, ' ').trim();
+}
+
+export interface UploadedFile {
+  file_path: string;
+  file_name: string;
+  file_type: string | null;
+}
+
+// Stores the original under its own folder so uploads with the same name never collide.
+export async function uploadDocumentFile(file: File): Promise<UploadedFile> {
+  const fileType = fileTypeOf(file);
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const filePath = `${crypto.randomUUID()}/${safeName}`;
+
+  const { error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(filePath, file, { contentType: fileType ?? undefined });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return { file_path: filePath, file_name: file.name, file_type: fileType };
+}
+
+export async function removeDocumentFile(filePath: string) {
+  await supabase.storage.from(DOCUMENTS_BUCKET).remove([filePath]);
+}
+
+// Short-lived link that downloads the original under its uploaded name.
+export async function getOriginalDownloadUrl(filePath: string, fileName: string | null) {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .createSignedUrl(filePath, 60, { download: fileName ?? true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data.signedUrl;
+}
@@ -0,0 +1,61 @@
+import type { LegalDomain } from '@/lib/legal';
+
+// What the upload and edit forms hold; everything is kept as typed until it is saved.
+export interface DocumentFormValues {
+  title: string;
+  description: string;
+  domain: LegalDomain;
+  jurisdiction: string;
+  year: string;
+  tags: string;
+  content: string;
+}
+
+export const EMPTY_DOCUMENT_FORM: DocumentFormValues = {
+  title: '',
+  description: '',
+  domain: 'general',
+  jurisdiction: '',
+  year: '',
+  tags: '',
+  content: '',
+};
+
+interface StoredDocument {
+  title: string;
+  description: string | null;
+  domain: LegalDomain;
+  jurisdiction: string | null;
+  year: number | null;
+  tags: string[] | null;
+  content: string | null;
+}
+
+export function toFormValues(document: StoredDocument): DocumentFormValues {
+  return {
+    title: document.title,
+    description: document.description ?? '',
+    domain: document.domain,
+    jurisdiction: document.jurisdiction ?? '',
+    year: document.year?.toString() ?? '',
+    tags: document.tags?.join(', ') ?? '',
+    content: document.content ?? '',
+  };
+}
+
+// Column values for legal_documents; content is left to the caller, which may store a file instead.
+export function toDocumentColumns(values: DocumentFormValues) {
+  const tags = values.tags
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+  return {
+    title: values.title.trim(),
+    description: values.description.trim() || null,
+    domain: values.domain,
+    jurisdiction: values.jurisdiction.trim() || null,
+    year: values.year ? parseInt(values.year) : null,
+    tags: tags.length ? tags : null,
+  };
+}
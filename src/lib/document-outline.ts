@@ -0,0 +1,106 @@
+// Same heading rules as the ingest-document chunker, so the table of contents lines up with the
+// sections chunks are split on: "Article 5", "Section 3(a)", "§ 1983", "Chapter IV", "IV. Remedies"
+// or all-caps headings.
+const MAX_HEADING_LENGTH = 120;
+const UNIT_HEADING_PATTERN = /^(?:article|art\.|section|sec\.|chapter|part|title|clause|schedule|rule)\s+(\S+)/i;
+// The unit has to be numbered, so prose like "Part of the claim" or "Rule of law" is not a
+// heading; roman numerals are upper-case only, or "Part civil, part criminal" would be one.
+const UNIT_NUMBER_PATTERN = /^(?:\d|[IVXLC]+\b)/;
+const SECTION_SIGN_PATTERN = /^§+\s*\d/;
+const ROMAN_HEADING_PATTERN = /^[IVXLC]+\.\s+\S/;
+const ALL_CAPS_HEADING_PATTERN = /^[A-Z][A-Z0-9 ,.'&\-–:]{3,}$/;
+
+// Divisions that group articles and sections sit at the top of the outline.
+const TOP_LEVEL_PATTERN = /^(?:chapter|part|title|schedule|book)\b/i;
+
+export interface OutlineHeading {
+  text: string;
+  start: number;
+  end: number;
+  level: 1 | 2;
+}
+
+export interface ChunkSpan {
+  index: number;
+  start: number;
+  end: number;
+  page: number | null;
+}
+
+export interface ContentSegment {
+  start: number;
+  end: number;
+  // Set on the segment a heading or chunk begins at, to anchor scrolling and markers
+  heading: OutlineHeading | null;
+  chunkStart: ChunkSpan | null;
+  inHeading: boolean;
+  // Indexes of the chunks covering this segment; two or more means chunk overlap
+  chunks: number[];
+}
+
+function isNumberedUnit(text: string): boolean {
+  const unit = UNIT_HEADING_PATTERN.exec(text);
+  return (!!unit && UNIT_NUMBER_PATTERN.test(unit[1])) || SECTION_SIGN_PATTERN.test(text);
+}
+
+export function extractHeadings(content: string): OutlineHeading[] {
+  const headings: OutlineHeading[] = [];
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const text = line.trim();
+    if (
+      text &&
+      text.length <= MAX_HEADING_LENGTH &&
+      (isNumberedUnit(text) || ROMAN_HEADING_PATTERN.test(text) || ALL_CAPS_HEADING_PATTERN.test(text))
+    ) {
+      const start = offset + line.indexOf(text);
+      headings.push({
+        text,
+        start,
+        end: start + text.length,
+        level: TOP_LEVEL_PATTERN.test(text) || ALL_CAPS_HEADING_PATTERN.test(text) ? 1 : 2,
+      });
+    }
+    offset += line.length + 1;
+  }
+
+  return headings;
+}
+
+// Cuts the content at every heading and chunk boundary so each piece can be styled on its own.
+export function segmentContent(
+  length: number,
+  headings: OutlineHeading[],
+  chunks: ChunkSpan[]
+): ContentSegment[] {
+  const spans = chunks.filter((chunk) => chunk.start < chunk.end && chunk.end <= length);
+  const cuts = new Set([0, length]);
+  for (const heading of headings) {
+    cuts.add(heading.start);
+    cuts.add(heading.end);
+  }
+  for (const chunk of spans) {
+    cuts.add(chunk.start);
+    cuts.add(chunk.end);
+  }
+
+  const points = [...cuts].sort((a, b) => a - b);
+  const segments: ContentSegment[] = [];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+
+    segments.push({
+      start,
+      end,
+      heading: headings.find((heading) => heading.start === start) ?? null,
+      chunkStart: spans.find((chunk) => chunk.start === start) ?? null,
+      inHeading: headings.some((heading) => heading.start <= start && end <= heading.end),
+      chunks: spans.filter((chunk) => chunk.start <= start && end <= chunk.end).map((chunk) => chunk.index),
+    });
+  }
+
+  return segments;
+}
@@ -0,0 +1,37 @@
+export type LegalDomain = 'criminal' | 'civil' | 'corporate' | 'constitutional' | 'labor' | 'tax' | 'property' | 'family' | 'environmental' | 'intellectual_property' | 'general';
+
+export const DOMAINS: { value: LegalDomain; label: string }[] = [
+  { value: 'general', label: 'General' },
+  { value: 'criminal', label: 'Criminal Law' },
+  { value: 'civil', label: 'Civil Law' },
+  { value: 'corporate', label: 'Corporate Law' },
+  { value: 'constitutional', label: 'Constitutional Law' },
+  { value: 'labor', label: 'Labor Law' },
+  { value: 'tax', label: 'Tax Law' },
+  { value: 'property', label: 'Property Law' },
+  { value: 'family', label: 'Family Law' },
+  { value: 'environmental', label: 'Environmental Law' },
+  { value: 'intellectual_property', label: 'Intellectual Property' },
+];
+
+export function getDomainLabel(domain: string) {
+  return DOMAINS.find((d) => d.value === domain)?.label || domain;
+}
+
+export const LEGAL_DISCLAIMER =
+  'This is informational guidance only, not legal advice. Consult a qualified attorney for legal matters.';
+
+// What a conversation is limited to; legal-chat filters retrieval by it. Empty fields mean "any".
+export interface ConversationScope {
+  jurisdiction: string | null;
+  domains: LegalDomain[];
+  year_from: number | null;
+  year_to: number | null;
+}
+
+export const EMPTY_SCOPE: ConversationScope = {
+  jurisdiction: null,
+  domains: [],
+  year_from: null,
+  year_to: null,
+};
@@ -0,0 +1,48 @@
+export interface TreeNode {
+  id: string;
+  parent_id: string | null;
+  created_at: string;
+}
+
+const byCreatedAt = (a: TreeNode, b: TreeNode) => a.created_at.localeCompare(b.created_at);
+
+// Messages from the root down to `leafId`, i.e. the branch shown in the chat.
+export function getBranch<T extends TreeNode>(messages: T[], leafId: string | null): T[] {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const branch: T[] = [];
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current) {
+    branch.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return branch;
+}
+
+// All versions of a turn: the message and the other children of its parent, oldest first.
+export function getSiblings<T extends TreeNode>(messages: T[], message: T): T[] {
+  return messages.filter((m) => m.parent_id === message.parent_id).sort(byCreatedAt);
+}
+
+// Follows the most recent child at each level, so switching to a version shows its latest continuation.
+export function getLatestLeaf<T extends TreeNode>(messages: T[], fromId: string): string {
+  let leafId = fromId;
+
+  for (;;) {
+    const children = messages.filter((m) => m.parent_id === leafId).sort(byCreatedAt);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
+
+// Leaf to show so that `messageId` is on screen: the current branch if it already contains it,
+// otherwise the latest continuation of that message.
+export function revealMessage<T extends TreeNode>(
+  messages: T[],
+  leafId: string | null,
+  messageId: string
+): string {
+  if (getBranch(messages, leafId).some((m) => m.id === messageId)) return leafId as string;
+  return getLatestLeaf(messages, messageId);
+}
@@ -0,0 +1,111 @@
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+  // 1-based line numbers in the old and new text; null on the side the line is missing from
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+// One row of a two-column view: removed lines face the lines that replaced them.
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+// Above this many cells the changed middle is shown as replaced wholesale instead of aligned.
+const MAX_LCS_CELLS = 4_000_000;
+
+// Line diff: common prefix and suffix, then a longest-common-subsequence alignment of the rest.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = Array(start).fill('equal');
+  const n = endA - start;
+  const m = endB - start;
+
+  if (n * m > MAX_LCS_CELLS) {
+    ops.push(...Array(n).fill('removed'), ...Array(m).fill('added'));
+  } else {
+    // lengths[i * (m + 1) + j]: LCS of a[start + i..endA) and b[start + j..endB)
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] =
+          a[start + i] === b[start + j]
+            ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        ops.push('equal');
+        i++;
+        j++;
+      } else if (j < m && (i === n || lengths[i * (m + 1) + j + 1] >= lengths[(i + 1) * (m + 1) + j])) {
+        ops.push('added');
+        j++;
+      } else {
+        ops.push('removed');
+        i++;
+      }
+    }
+  }
+
+  ops.push(...Array(a.length - endA).fill('equal'));
+
+  let oldNumber = 0;
+  let newNumber = 0;
+  return ops.map((op) => {
+    if (op === 'added') {
+      newNumber++;
+      return { op, text: b[newNumber - 1], oldNumber: null, newNumber };
+    }
+    oldNumber++;
+    if (op === 'removed') {
+      return { op, text: a[oldNumber - 1], oldNumber, newNumber: null };
+    }
+    newNumber++;
+    return { op, text: a[oldNumber - 1], oldNumber, newNumber };
+  });
+}
+
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].op === 'equal') {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].op !== 'equal') {
+      (lines[index].op === 'removed' ? removed : added).push(lines[index]);
+      index++;
+    }
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+  }
+
+  return rows;
+}
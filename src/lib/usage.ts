@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import type { UsageStatus } from '../../supabase/functions/legal-chat/quota-limits.ts';
+
+const USAGE_CHANGED_EVENT = 'lexadvisor:usage-changed';
+
+// Lets mounted usage meters know an answer was just counted.
+export function notifyUsageChanged() {
+  window.dispatchEvent(new Event(USAGE_CHANGED_EVENT));
+}
+
+export function useUsageStatus() {
+  const { user } = useAuth();
+  const [usage, setUsage] = useState<UsageStatus | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .rpc('get_usage_status', { _user_id: user.id })
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching usage:', error);
+      return;
+    }
+
+    setUsage(data);
+  }, [user]);
+
+  useEffect(() => {
+    fetchUsage();
+    window.addEventListener(USAGE_CHANGED_EVENT, fetchUsage);
+    return () => window.removeEventListener(USAGE_CHANGED_EVENT, fetchUsage);
+  }, [fetchUsage]);
+
+  return usage;
+}
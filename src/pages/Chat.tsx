@@ -1,39 +1,78 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useAuth } from '@/lib/auth';
 import { supabase } from '@/integrations/supabase/client';
 import { AppLayout } from '@/components/layout/AppLayout';
-import { ChatMessage } from '@/components/chat/ChatMessage';
+import { ChatMessage, ChatSource, Grounding } from '@/components/chat/ChatMessage';
 import { ChatInput } from '@/components/chat/ChatInput';
-import { ConversationList } from '@/components/chat/ConversationList';
+import {
+  Conversation,
+  ConversationList,
+  ConversationUpdate,
+} from '@/components/chat/ConversationList';
+import { MessageSearch, MessageSearchHit } from '@/components/chat/MessageSearch';
+import { ConversationScopePicker } from '@/components/chat/ConversationScopePicker';
+import { ShareConversationDialog } from '@/components/chat/ShareConversationDialog';
+import { DocumentViewerSheet } from '@/components/documents/DocumentViewerSheet';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Scale, Sparkles } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { readChatStream } from '@/lib/chat-stream';
+import { ConversationScope, EMPTY_SCOPE } from '@/lib/legal';
+import {
+  downloadBlob,
+  exportFileName,
+  ExportFormat,
+  printConversation,
+  toDocx,
+  toMarkdown,
+} from '@/lib/conversation-export';
+import { getBranch, getLatestLeaf, getSiblings, revealMessage } from '@/lib/message-tree';
+import { notifyUsageChanged } from '@/lib/usage';
 
 interface Message {
   id: string;
+  parent_id: string | null;
   role: 'user' | 'assistant';
   content: string;
-  sources?: { title: string; domain?: string }[];
-  created_at: string;
-}
-
-interface Conversation {
-  id: string;
-  title: string;
+  sources?: ChatSource[];
+  interrupted?: boolean;
+  grounding?: Grounding | null;
   created_at: string;
 }
 
 const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/legal-chat`;
 
 export default function Chat() {
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const { toast } = useToast();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Every message of the conversation tree, and the leaf of the branch being shown
+  const [allMessages, setAllMessages] = useState<Message[]>([]);
+  const [leafId, setLeafId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
+  const [viewerSource, setViewerSource] = useState<ChatSource | null>(null);
+  const [shareConversationId, setShareConversationId] = useState<string | null>(null);
+  // Scope chosen before the first message, applied when the conversation is created
+  const [draftScope, setDraftScope] = useState<ConversationScope>(EMPTY_SCOPE);
+  // Message opened from search; kept on screen and highlighted until the user moves on
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Conversation just created by the message being sent; its turns arrive through the stream
+  const createdConversationRef = useRef<string | null>(null);
+
+  const messages = useMemo(() => getBranch(allMessages, leafId), [allMessages, leafId]);
+  const activeConversation = conversations.find((c) => c.id === activeConversationId);
+  const scope: ConversationScope = activeConversation
+    ? {
+        jurisdiction: activeConversation.jurisdiction,
+        domains: activeConversation.domains,
+        year_from: activeConversation.year_from,
+        year_to: activeConversation.year_to,
+      }
+    : draftScope;
 
   // Fetch conversations
   useEffect(() => {
@@ -52,51 +91,106 @@ export default function Chat() {
       }
 
       setConversations(data || []);
-      if (data && data.length > 0 && !activeConversationId) {
-        setActiveConversationId(data[0].id);
+      const latest = data?.find((c) => !c.archived);
+      if (latest && !activeConversationId) {
+        setActiveConversationId(latest.id);
       }
     };
 
     fetchConversations();
   }, [user]);
 
+  // legal-chat stores the generated title and summary after the answer has finished streaming
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`conversations:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'conversations', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const updated = payload.new as Conversation;
+          setConversations((prev) => prev.map((c) => (c.id === updated.id ? { ...c, ...updated } : c)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  // Loads a conversation's messages and the branch last shown, as stored
+  const fetchMessages = useCallback(async (conversationId: string) => {
+    const [{ data, error }, { data: conversation }] = await Promise.all([
+      supabase
+        .from('messages')
+        .select('id, parent_id, role, content, sources, interrupted, grounding, created_at')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('conversations')
+        .select('current_message_id')
+        .eq('id', conversationId)
+        .maybeSingle(),
+    ]);
+
+    if (error) {
+      console.error('Error fetching messages:', error);
+      return;
+    }
+
+    const loaded = (data || []).map((msg) => ({
+      ...msg,
+      role: msg.role as 'user' | 'assistant',
+      sources: (msg.sources as unknown as ChatSource[] | null) ?? undefined,
+      grounding: msg.grounding as unknown as Grounding | null,
+    }));
+
+    setAllMessages(loaded);
+    setLeafId(conversation?.current_message_id ?? loaded[loaded.length - 1]?.id ?? null);
+  }, []);
+
   // Fetch messages for active conversation
   useEffect(() => {
     if (!activeConversationId) {
-      setMessages([]);
+      setAllMessages([]);
+      setLeafId(null);
       return;
     }
 
-    const fetchMessages = async () => {
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('conversation_id', activeConversationId)
-        .order('created_at', { ascending: true });
-
-      if (error) {
-        console.error('Error fetching messages:', error);
-        return;
-      }
+    // Fetching it now could replace the optimistic turns while the answer is streaming
+    if (createdConversationRef.current === activeConversationId) {
+      createdConversationRef.current = null;
+      return;
+    }
 
-      setMessages(
-        (data || []).map((msg) => ({
-          ...msg,
-          role: msg.role as 'user' | 'assistant',
-          sources: msg.sources as { title: string; domain?: string }[] | undefined,
-        }))
-      );
-    };
+    fetchMessages(activeConversationId);
+  }, [activeConversationId, fetchMessages]);
 
-    fetchMessages();
-  }, [activeConversationId]);
+  // Switch to the branch containing the highlighted message once it is loaded
+  useEffect(() => {
+    if (!highlightedMessageId || !allMessages.some((m) => m.id === highlightedMessageId)) return;
+    setLeafId((prev) => revealMessage(allMessages, prev, highlightedMessageId));
+  }, [allMessages, highlightedMessageId]);
 
-  // Auto-scroll to bottom
+  // Auto-scroll to bottom, unless a search hit is being shown
   useEffect(() => {
-    if (scrollRef.current) {
+    if (scrollRef.current && !highlightedMessageId) {
       scrollRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages]);
+  }, [messages, highlightedMessageId]);
+
+  const selectConversation = (id: string) => {
+    setHighlightedMessageId(null);
+    setActiveConversationId(id);
+  };
+
+  const openSearchHit = (hit: MessageSearchHit) => {
+    setHighlightedMessageId(hit.message_id);
+    setActiveConversationId(hit.conversation_id);
+  };
 
   const createNewConversation = async () => {
     if (!user) return;
@@ -118,7 +212,90 @@ export default function Chat() {
 
     setConversations((prev) => [data, ...prev]);
     setActiveConversationId(data.id);
-    setMessages([]);
+    setAllMessages([]);
+    setLeafId(null);
+  };
+
+  const updateConversation = async (id: string, update: ConversationUpdate) => {
+    const { data, error } = await supabase
+      .from('conversations')
+      // A manual rename stops legal-chat from replacing the title with a generated one
+      .update(update.title ? { ...update, auto_title: false } : update)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update conversation',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setConversations((prev) => prev.map((c) => (c.id === id ? data : c)));
+  };
+
+  // Exports the branch currently selected in the conversation, as stored
+  const exportConversation = async (id: string, format: ExportFormat) => {
+    const [{ data: conversation }, { data: stored, error }] = await Promise.all([
+      supabase.from('conversations').select('title, current_message_id').eq('id', id).single(),
+      supabase
+        .from('messages')
+        .select('id, parent_id, role, content, sources, interrupted, created_at')
+        .eq('conversation_id', id)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    if (error || !conversation) {
+      console.error('Error loading conversation for export:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to export conversation',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const branch = getBranch(
+      stored || [],
+      conversation.current_message_id ?? stored?.[stored.length - 1]?.id ?? null
+    );
+    const exported = {
+      title: conversation.title,
+      messages: branch.map((msg) => ({
+        ...msg,
+        role: msg.role as 'user' | 'assistant',
+        sources: msg.sources as unknown as ChatSource[] | null,
+      })),
+    };
+
+    try {
+      if (format === 'markdown') {
+        const markdown = new Blob([toMarkdown(exported)], { type: 'text/markdown;charset=utf-8' });
+        downloadBlob(markdown, exportFileName(exported.title, 'md'));
+      } else if (format === 'docx') {
+        downloadBlob(await toDocx(exported), exportFileName(exported.title, 'docx'));
+      } else {
+        await printConversation(exported);
+      }
+    } catch (exportError) {
+      console.error('Error exporting conversation:', exportError);
+      toast({
+        title: 'Error',
+        description: 'Failed to export conversation',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const changeScope = (next: ConversationScope) => {
+    if (activeConversationId) {
+      updateConversation(activeConversationId, next);
+    } else {
+      setDraftScope(next);
+    }
   };
 
   const deleteConversation = async (id: string) => {
@@ -140,7 +317,7 @@ export default function Chat() {
   };
 
   const sendMessage = async (content: string) => {
-    if (!user) return;
+    if (!user || !session) return;
 
     let conversationId = activeConversationId;
 
@@ -148,7 +325,7 @@ export default function Chat() {
     if (!conversationId) {
       const { data, error } = await supabase
         .from('conversations')
-        .insert({ user_id: user.id, title: content.slice(0, 50) + '...' })
+        .insert({ user_id: user.id, ...draftScope })
         .select()
         .single();
 
@@ -162,158 +339,233 @@ export default function Chat() {
       }
 
       conversationId = data.id;
+      setDraftScope(EMPTY_SCOPE);
       setConversations((prev) => [data, ...prev]);
+      createdConversationRef.current = conversationId;
       setActiveConversationId(conversationId);
     }
 
-    // Add user message optimistically
+    // Add user message optimistically, continuing the branch on screen
+    const parentId = messages[messages.length - 1]?.id ?? null;
     const userMessage: Message = {
       id: crypto.randomUUID(),
+      parent_id: parentId,
       role: 'user',
       content,
       created_at: new Date().toISOString(),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
-    setIsLoading(true);
+    setAllMessages((prev) => [...prev, userMessage]);
+    setLeafId(userMessage.id);
 
-    // Save user message to database
-    await supabase.from('messages').insert({
-      conversation_id: conversationId,
-      role: 'user',
-      content,
-    });
+    await streamAnswer(conversationId, { content, parentId }, userMessage.id);
+  };
 
-    // Update conversation title if first message
-    if (messages.length === 0) {
-      await supabase
-        .from('conversations')
-        .update({ title: content.slice(0, 50) + (content.length > 50 ? '...' : '') })
-        .eq('id', conversationId);
-
-      setConversations((prev) =>
-        prev.map((c) =>
-          c.id === conversationId
-            ? { ...c, title: content.slice(0, 50) + (content.length > 50 ? '...' : '') }
-            : c
-        )
-      );
-    }
+  // Streams an answer from legal-chat, which persists both turns and reports their ids as events.
+  // `optimisticUserId` is the local id of the question to swap for the saved one, if any.
+  const streamAnswer = async (
+    conversationId: string,
+    request: {
+      content?: string;
+      parentId?: string | null;
+      regenerate?: boolean;
+      messageId?: string;
+      editMessageId?: string;
+    },
+    optimisticUserId: string | null
+  ) => {
+    if (!session) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setHighlightedMessageId(null);
+    // Replaced by the id legal-chat stores the answer under, announced before the first token
+    let assistantId: string = crypto.randomUUID();
+    let questionId = optimisticUserId ?? request.messageId ?? null;
+    setIsLoading(true);
 
-    // Stream AI response
     try {
       setIsStreaming(true);
       let assistantContent = '';
+      let assistantSources: ChatSource[] = [];
 
       const response = await fetch(CHAT_URL, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+          apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+          Authorization: `Bearer ${session.access_token}`,
         },
-        body: JSON.stringify({
-          messages: [...messages, userMessage].map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-          conversationId,
-        }),
+        body: JSON.stringify({ conversationId, ...request }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        if (body?.code === 'quota_exceeded') {
+          throw new Error(body.error);
+        }
         if (response.status === 429) {
           throw new Error('Rate limit exceeded. Please try again later.');
         }
         if (response.status === 402) {
           throw new Error('Payment required. Please add credits to continue.');
         }
-        throw new Error('Failed to get response');
+        throw new Error(body?.error || 'Failed to get response');
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      while (reader) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-
-        let newlineIndex: number;
-        while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
-          let line = buffer.slice(0, newlineIndex);
-          buffer = buffer.slice(newlineIndex + 1);
-
-          if (line.endsWith('\r')) line = line.slice(0, -1);
-          if (line.startsWith(':') || line.trim() === '') continue;
-          if (!line.startsWith('data: ')) continue;
-
-          const jsonStr = line.slice(6).trim();
-          if (jsonStr === '[DONE]') break;
-
-          try {
-            const parsed = JSON.parse(jsonStr);
-            const content = parsed.choices?.[0]?.delta?.content as string | undefined;
-            if (content) {
-              assistantContent += content;
-              setMessages((prev) => {
-                const last = prev[prev.length - 1];
-                if (last?.role === 'assistant') {
-                  return prev.map((m, i) =>
-                    i === prev.length - 1 ? { ...m, content: assistantContent } : m
-                  );
-                }
-                return [
-                  ...prev,
-                  {
-                    id: crypto.randomUUID(),
-                    role: 'assistant' as const,
-                    content: assistantContent,
-                    created_at: new Date().toISOString(),
-                  },
-                ];
-              });
+      // Swap the optimistic question for the saved one, including the links pointing at it
+      const replaceUserMessage = (saved: Message) => {
+        setAllMessages((prev) =>
+          prev.map((m) =>
+            m.id === optimisticUserId
+              ? { ...m, id: saved.id, parent_id: saved.parent_id, created_at: saved.created_at }
+              : m.parent_id === optimisticUserId
+                ? { ...m, parent_id: saved.id }
+                : m
+          )
+        );
+        setLeafId((prev) => (prev === optimisticUserId ? saved.id : prev));
+        questionId = saved.id;
+      };
+
+      await readChatStream(response, {
+        onDelta: (delta) => {
+          assistantContent += delta;
+          setAllMessages((prev) => {
+            if (prev.some((m) => m.id === assistantId)) {
+              return prev.map((m) =>
+                m.id === assistantId ? { ...m, content: assistantContent } : m
+              );
             }
-          } catch {
-            buffer = line + '\n' + buffer;
-            break;
+            return [
+              ...prev,
+              {
+                id: assistantId,
+                parent_id: questionId,
+                role: 'assistant' as const,
+                content: assistantContent,
+                sources: assistantSources,
+                created_at: new Date().toISOString(),
+              },
+            ];
+          });
+          setLeafId(assistantId);
+        },
+        onEvent: (event, data) => {
+          // Retrieved sources arrive as their own event before the answer text
+          if (event === 'sources') assistantSources = data as ChatSource[];
+          if (event === 'user_message' && optimisticUserId) replaceUserMessage(data as Message);
+          if (event === 'assistant_message') assistantId = (data as Message).id;
+          // Scored once the answer is saved
+          if (event === 'grounding') {
+            setAllMessages((prev) =>
+              prev.map((m) => (m.id === assistantId ? { ...m, grounding: data as Grounding } : m))
+            );
           }
-        }
-      }
-
-      // Save assistant message to database
-      await supabase.from('messages').insert({
-        conversation_id: conversationId,
-        role: 'assistant',
-        content: assistantContent,
+        },
       });
     } catch (error) {
+      // Stopping aborts the fetch; legal-chat saves the partial answer as interrupted
+      if (abortController.signal.aborted) {
+        setAllMessages((prev) =>
+          prev.map((m) => (m.id === assistantId ? { ...m, interrupted: true } : m))
+        );
+        return;
+      }
+
       console.error('Error streaming response:', error);
+      // The question may or may not have been saved before the failure (over-quota ones are
+      // refused first), so replace the optimistic turns with what the server actually stored.
+      await fetchMessages(conversationId);
       toast({
         title: 'Error',
         description: error instanceof Error ? error.message : 'Failed to get AI response',
         variant: 'destructive',
       });
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
       setIsStreaming(false);
+      notifyUsageChanged();
     }
   };
 
+  const stopStreaming = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Adds another answer to the last question as an alternative version
+  const regenerateLastAnswer = async () => {
+    const last = messages[messages.length - 1];
+    if (!activeConversationId || !last) return;
+
+    const questionId = last.role === 'assistant' ? last.parent_id : last.id;
+    if (!questionId) return;
+
+    setLeafId(questionId);
+    await streamAnswer(activeConversationId, { regenerate: true, messageId: questionId }, null);
+  };
+
+  // Asks the edited question as a new version of that turn, branching from its parent
+  const editMessage = async (id: string, content: string) => {
+    const original = allMessages.find((m) => m.id === id);
+    if (!activeConversationId || !original) return;
+
+    const editedMessage: Message = {
+      id: crypto.randomUUID(),
+      parent_id: original.parent_id,
+      role: 'user',
+      content,
+      created_at: new Date().toISOString(),
+    };
+
+    setAllMessages((prev) => [...prev, editedMessage]);
+    setLeafId(editedMessage.id);
+    await streamAnswer(activeConversationId, { content, editMessageId: id }, editedMessage.id);
+  };
+
+  // Shows another version of a turn, continuing down its most recent branch
+  const switchVersion = async (message: Message, offset: number) => {
+    const siblings = getSiblings(allMessages, message);
+    const target = siblings[siblings.findIndex((m) => m.id === message.id) + offset];
+    if (!target || !activeConversationId) return;
+
+    const newLeafId = getLatestLeaf(allMessages, target.id);
+    setHighlightedMessageId(null);
+    setLeafId(newLeafId);
+
+    await supabase
+      .from('conversations')
+      .update({ current_message_id: newLeafId })
+      .eq('id', activeConversationId);
+  };
+
   const sidebar = (
-    <ConversationList
-      conversations={conversations}
-      activeConversationId={activeConversationId}
-      onSelect={setActiveConversationId}
-      onNew={createNewConversation}
-      onDelete={deleteConversation}
-    />
+    <MessageSearch onSelect={openSearchHit}>
+      <ConversationList
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        onSelect={selectConversation}
+        onNew={createNewConversation}
+        onUpdate={updateConversation}
+        onExport={exportConversation}
+        onShare={setShareConversationId}
+        onDelete={deleteConversation}
+      />
+    </MessageSearch>
   );
 
   return (
     <AppLayout sidebar={sidebar}>
       <div className="flex flex-col h-full">
+        {/* Conversation scope */}
+        <div className="border-b border-border bg-card px-6 py-2">
+          <div className="max-w-3xl mx-auto">
+            <ConversationScopePicker scope={scope} onChange={changeScope} disabled={isLoading} />
+          </div>
+        </div>
+
         {/* Chat messages */}
         <ScrollArea className="flex-1 p-6">
           <div className="max-w-3xl mx-auto space-y-6">
@@ -348,15 +600,42 @@ export default function Chat() {
                 </div>
               </div>
             ) : (
-              messages.map((message, index) => (
-                <ChatMessage
-                  key={message.id}
-                  role={message.role}
-                  content={message.content}
-                  sources={message.sources}
-                  isStreaming={isStreaming && index === messages.length - 1 && message.role === 'assistant'}
-                />
-              ))
+              messages.map((message, index) => {
+                const siblings = getSiblings(allMessages, message);
+
+                return (
+                  <ChatMessage
+                    key={message.id}
+                    role={message.role}
+                    content={message.content}
+                    sources={message.sources}
+                    interrupted={message.interrupted}
+                    grounding={message.grounding}
+                    highlighted={message.id === highlightedMessageId}
+                    isStreaming={isStreaming && index === messages.length - 1 && message.role === 'assistant'}
+                    onSourceClick={setViewerSource}
+                    onRegenerate={
+                      !isLoading && index === messages.length - 1 && message.role === 'assistant'
+                        ? regenerateLastAnswer
+                        : undefined
+                    }
+                    onEdit={
+                      !isLoading && message.role === 'user'
+                        ? (content) => editMessage(message.id, content)
+                        : undefined
+                    }
+                    version={
+                      siblings.length > 1
+                        ? {
+                            current: siblings.findIndex((m) => m.id === message.id) + 1,
+                            total: siblings.length,
+                          }
+                        : undefined
+                    }
+                    onVersionChange={!isLoading ? (offset) => switchVersion(message, offset) : undefined}
+                  />
+                );
+              })
             )}
             <div ref={scrollRef} />
           </div>
@@ -365,10 +644,25 @@ export default function Chat() {
         {/* Chat input */}
         <div className="border-t border-border bg-card p-4">
           <div className="max-w-3xl mx-auto">
-            <ChatInput onSend={sendMessage} isLoading={isLoading} />
+            <ChatInput
+              onSend={sendMessage}
+              onStop={stopStreaming}
+              isLoading={isLoading}
+              isStreaming={isStreaming}
+            />
           </div>
         </div>
       </div>
+
+      <DocumentViewerSheet
+        source={viewerSource}
+        onOpenChange={(open) => !open && setViewerSource(null)}
+      />
+
+      <ShareConversationDialog
+        conversationId={shareConversationId}
+        onOpenChange={(open) => !open && setShareConversationId(null)}
+      />
     </AppLayout>
   );
 }
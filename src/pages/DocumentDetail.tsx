@@ -0,0 +1,457 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { DocumentHistory } from '@/components/documents/DocumentHistory';
+import { DocumentStatusBadges } from '@/components/documents/DocumentStatusBadges';
+import { EditDocumentDialog } from '@/components/documents/EditDocumentDialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { ArrowLeft, BookOpen, Download, FileText, ListTree, Loader2, MessageSquare, Pencil } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { getDomainLabel } from '@/lib/legal';
+import { getOriginalDownloadUrl } from '@/lib/document-files';
+import { ChunkSpan, extractHeadings, segmentContent } from '@/lib/document-outline';
+import type { ChatSource } from '@/components/chat/ChatMessage';
+
+interface DetailDocument {
+  id: string;
+  title: string;
+  description: string | null;
+  content: string | null;
+  domain: string;
+  jurisdiction: string | null;
+  year: number | null;
+  tags: string[] | null;
+  validated: boolean | null;
+  validated_by: string | null;
+  uploaded_by: string | null;
+  indexing_status: string;
+  indexing_error: string | null;
+  indexed_at: string | null;
+  file_path: string | null;
+  file_name: string | null;
+  page_count: number | null;
+  version: number;
+  indexed_version: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Citation {
+  message_id: string;
+  conversation_title: string;
+  full_name: string | null;
+  answer: string;
+  citations: ChatSource[] | null;
+  created_at: string;
+}
+
+// Alternating tints tell neighbouring chunks apart; overlaps get their own.
+const CHUNK_TINTS = ['bg-primary/5', 'bg-accent/10'];
+const OVERLAP_TINT = 'bg-secondary/30';
+
+export default function DocumentDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { role } = useAuth();
+  const [document, setDocument] = useState<DetailDocument | null>(null);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [chunks, setChunks] = useState<ChunkSpan[]>([]);
+  const [citations, setCitations] = useState<Citation[]>([]);
+  const [showChunks, setShowChunks] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  // Bumped after an edit to load the saved document
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchDocument = async () => {
+      setIsLoading(true);
+
+      const [{ data: doc, error }, { data: embeddings }, { data: cited, error: citedError }] = await Promise.all([
+        supabase.from('legal_documents').select('*').eq('id', id).maybeSingle(),
+        supabase
+          .from('document_embeddings')
+          .select('chunk_index, metadata')
+          .eq('document_id', id)
+          .order('chunk_index', { ascending: true }),
+        supabase.rpc('get_document_citations', { _document_id: id }),
+      ]);
+
+      if (error || citedError) {
+        console.error('Error fetching document:', error ?? citedError);
+      }
+
+      setDocument((doc as DetailDocument | null) ?? null);
+      setCitations((cited ?? []) as unknown as Citation[]);
+      setChunks(
+        (embeddings ?? []).flatMap((embedding) => {
+          const metadata = embedding.metadata as { char_start?: number; char_end?: number; page?: number | null };
+          return metadata?.char_start !== undefined && metadata?.char_end !== undefined
+            ? [
+                {
+                  index: embedding.chunk_index,
+                  start: metadata.char_start,
+                  end: metadata.char_end,
+                  page: metadata.page ?? null,
+                },
+              ]
+            : [];
+        })
+      );
+
+      const people = [doc?.uploaded_by, doc?.validated_by].filter(Boolean) as string[];
+      if (people.length) {
+        const { data: found } = await supabase.rpc('get_display_names', { _user_ids: people });
+        setNames(Object.fromEntries((found ?? []).map((person) => [person.user_id, person.full_name])));
+      }
+
+      setIsLoading(false);
+    };
+
+    fetchDocument();
+  }, [id, reloadKey]);
+
+  const content = document?.content ?? '';
+  const headings = useMemo(() => extractHeadings(content), [content]);
+  // Offsets are only meaningful for the content the chunks were cut from.
+  const chunksCurrent = document?.indexing_status === 'indexed' && chunks.length > 0;
+  const segments = useMemo(
+    () => segmentContent(content.length, headings, showChunks && chunksCurrent ? chunks : []),
+    [content, headings, chunks, showChunks, chunksCurrent]
+  );
+
+  const scrollToAnchor = (anchor: string) => {
+    window.document.getElementById(anchor)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Chunk numbers only point into the current text when the answer cited the indexed version.
+  const citesIndexedVersion = (source: ChatSource) =>
+    chunksCurrent && (!source.version || source.version === document?.indexed_version);
+
+  const showChunk = (chunkIndex: number | undefined) => {
+    if (chunkIndex === undefined) return;
+    setShowChunks(true);
+    // Wait for the chunk markers to render
+    setTimeout(() => scrollToAnchor(`chunk-${chunkIndex}`), 0);
+  };
+
+  const downloadOriginal = async () => {
+    if (!document?.file_path) return;
+
+    setIsDownloading(true);
+    try {
+      window.location.assign(await getOriginalDownloadUrl(document.file_path, document.file_name));
+    } catch (error) {
+      toast({
+        title: 'Download failed',
+        description: error instanceof Error ? error.message : 'Could not download the original file.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const uploader = document?.uploaded_by ? names[document.uploaded_by] : null;
+  const details = document
+    ? [
+        {
+          label: 'Uploaded',
+          value: `${new Date(document.created_at).toLocaleDateString()}${uploader ? ` by ${uploader}` : ''}`,
+        },
+        { label: 'Version', value: document.version.toString() },
+        { label: 'Last updated', value: new Date(document.updated_at).toLocaleString() },
+        { label: 'Indexed', value: document.indexed_at ? new Date(document.indexed_at).toLocaleString() : '—' },
+        { label: 'Chunks', value: chunks.length ? chunks.length.toString() : '—' },
+        { label: 'Pages', value: document.page_count?.toString() ?? '—' },
+        { label: 'Original file', value: document.file_name ?? 'Pasted text' },
+      ]
+    : [];
+
+  return (
+    <AppLayout>
+      <div className="flex flex-col h-full">
+        {/* Header */}
+        <div className="border-b border-border bg-card p-6">
+          <div className="max-w-6xl mx-auto">
+            <Button variant="ghost" size="sm" className="gap-1 -ml-2 mb-2" asChild>
+              <Link to="/documents">
+                <ArrowLeft className="h-4 w-4" />
+                Documents
+              </Link>
+            </Button>
+            {isLoading ? (
+              <div className="space-y-2">
+                <Skeleton className="h-8 w-1/2" />
+                <Skeleton className="h-4 w-1/3" />
+              </div>
+            ) : document ? (
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                <div className="min-w-0">
+                  <h1 className="text-2xl font-serif font-bold text-foreground">{document.title}</h1>
+                  <p className="text-muted-foreground">{document.description || 'No description provided'}</p>
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    <DocumentStatusBadges
+                      validated={document.validated}
+                      validatorName={document.validated_by ? names[document.validated_by] : null}
+                      indexingStatus={document.indexing_status}
+                      indexingError={document.indexing_error}
+                    />
+                    <Badge variant="secondary">{getDomainLabel(document.domain)}</Badge>
+                    {document.jurisdiction && <Badge variant="outline">{document.jurisdiction}</Badge>}
+                    {document.year && <Badge variant="outline">{document.year}</Badge>}
+                    {document.tags?.map((tag) => (
+                      <Badge key={tag} variant="outline" className="bg-muted">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {(role === 'admin' || role === 'legal_analyst') && (
+                    <Button variant="outline" className="gap-2" onClick={() => setIsEditing(true)}>
+                      <Pencil className="h-4 w-4" />
+                      Edit
+                    </Button>
+                  )}
+                  {document.file_path && (
+                    <Button variant="outline" className="gap-2" onClick={downloadOriginal} disabled={isDownloading}>
+                      {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                      Download original
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <h1 className="text-2xl font-serif font-bold text-foreground">Document not found</h1>
+            )}
+          </div>
+        </div>
+
+        <ScrollArea className="flex-1">
+          <div className="max-w-6xl mx-auto p-6">
+            {!isLoading && !document ? (
+              <div className="text-center py-12">
+                <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">This document does not exist or has been deleted.</p>
+              </div>
+            ) : document ? (
+              <Tabs defaultValue="document">
+                <TabsList className="mb-6">
+                  <TabsTrigger value="document">Document</TabsTrigger>
+                  <TabsTrigger value="history">History</TabsTrigger>
+                </TabsList>
+                <TabsContent value="document" className="mt-0">
+                  <div className="grid gap-6 lg:grid-cols-[260px_minmax(0,1fr)]">
+                    <aside className="space-y-6">
+                      <Card className="shadow-card">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="font-serif text-base">Details</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <dl className="space-y-2 text-sm">
+                            {details.map((detail) => (
+                              <div key={detail.label}>
+                                <dt className="text-xs text-muted-foreground">{detail.label}</dt>
+                                <dd className="text-foreground break-words">{detail.value}</dd>
+                              </div>
+                            ))}
+                          </dl>
+                        </CardContent>
+                      </Card>
+
+                      <Card className="shadow-card">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="font-serif text-base flex items-center gap-2">
+                            <ListTree className="h-4 w-4" />
+                            Contents
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          {headings.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">No headings found.</p>
+                          ) : (
+                            <nav className="space-y-1 max-h-[50vh] overflow-y-auto">
+                              {headings.map((heading, index) => (
+                                <button
+                                  key={heading.start}
+                                  onClick={() => scrollToAnchor(`heading-${index}`)}
+                                  className={cn(
+                                    'block w-full truncate text-left text-sm text-muted-foreground hover:text-foreground',
+                                    heading.level === 2 && 'pl-3'
+                                  )}
+                                  title={heading.text}
+                                >
+                                  {heading.text}
+                                </button>
+                              ))}
+                            </nav>
+                          )}
+                        </CardContent>
+                      </Card>
+                    </aside>
+
+                    <div className="space-y-6 min-w-0">
+                      <Card className="shadow-card">
+                        <CardHeader className="pb-3">
+                          <div className="flex items-center justify-between gap-4">
+                            <CardTitle className="font-serif text-lg flex items-center gap-2">
+                              <BookOpen className="h-4 w-4" />
+                              Full text
+                            </CardTitle>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <div className="flex items-center gap-2">
+                                  <Switch
+                                    id="show-chunks"
+                                    checked={showChunks && chunksCurrent}
+                                    onCheckedChange={setShowChunks}
+                                    disabled={!chunksCurrent}
+                                  />
+                                  <Label htmlFor="show-chunks" className="text-sm">
+                                    Show chunks
+                                  </Label>
+                                </div>
+                              </TooltipTrigger>
+                              <TooltipContent className="max-w-xs">
+                                {chunksCurrent
+                                  ? 'Shade the passages embedded for retrieval; overlaps between chunks are darker.'
+                                  : 'Chunks are shown once the document is indexed.'}
+                              </TooltipContent>
+                            </Tooltip>
+                          </div>
+                        </CardHeader>
+                        <CardContent>
+                          {content ? (
+                            <div className="whitespace-pre-wrap text-sm leading-relaxed text-foreground">
+                              {segments.map((segment) => {
+                                const headingIndex = segment.heading ? headings.indexOf(segment.heading) : -1;
+                                const chunk = segment.chunkStart;
+
+                                return (
+                                  <span key={segment.start}>
+                                    {headingIndex !== -1 && <span id={`heading-${headingIndex}`} className="scroll-mt-4" />}
+                                    {chunk && (
+                                      <span
+                                        id={`chunk-${chunk.index}`}
+                                        className="scroll-mt-4 mx-0.5 rounded bg-muted px-1 align-middle font-sans text-[10px] text-muted-foreground"
+                                      >
+                                        #{chunk.index + 1}
+                                        {chunk.page && ` · p. ${chunk.page}`}
+                                      </span>
+                                    )}
+                                    <span
+                                      className={cn(
+                                        segment.inHeading && 'font-semibold font-serif',
+                                        segment.chunks.length > 1
+                                          ? OVERLAP_TINT
+                                          : segment.chunks.length === 1 && CHUNK_TINTS[segment.chunks[0] % CHUNK_TINTS.length]
+                                      )}
+                                    >
+                                      {content.slice(segment.start, segment.end)}
+                                    </span>
+                                  </span>
+                                );
+                              })}
+                            </div>
+                          ) : (
+                            <p className="text-sm text-muted-foreground">
+                              {document.file_path
+                                ? 'The text of this file has not been extracted yet; it is extracted when the document is indexed.'
+                                : 'This document has no content.'}
+                            </p>
+                          )}
+                        </CardContent>
+                      </Card>
+
+                      <Card className="shadow-card">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="font-serif text-lg flex items-center gap-2">
+                            <MessageSquare className="h-4 w-4" />
+                            Cited in answers
+                          </CardTitle>
+                          <CardDescription>The 50 most recent answers that cite this document</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                          {citations.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">No answer has cited this document yet.</p>
+                          ) : (
+                            <div className="space-y-4">
+                              {citations.map((citation) => (
+                                <div key={citation.message_id} className="rounded-lg border border-border p-3">
+                                  <div className="flex flex-wrap items-baseline justify-between gap-2 mb-1">
+                                    <p className="text-sm font-medium text-foreground truncate">
+                                      {citation.conversation_title}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                      {citation.full_name ? `${citation.full_name} · ` : ''}
+                                      {new Date(citation.created_at).toLocaleString()}
+                                    </p>
+                                  </div>
+                                  <p className="text-sm text-muted-foreground line-clamp-3">{citation.answer}</p>
+                                  <div className="flex flex-wrap gap-2 mt-2">
+                                    {citation.citations?.map((source) => (
+                                      <Badge
+                                        key={`${source.index}-${source.chunk_index}`}
+                                        variant="outline"
+                                        title={source.excerpt}
+                                        className={cn(
+                                          'gap-1 bg-muted/50',
+                                          citesIndexedVersion(source) && 'hover:bg-muted cursor-pointer'
+                                        )}
+                                        onClick={() => citesIndexedVersion(source) && showChunk(source.chunk_index)}
+                                      >
+                                        <span className="font-semibold">[{source.index}]</span>
+                                        {source.chunk_index !== undefined && <span>chunk #{source.chunk_index + 1}</span>}
+                                        {source.page && <span className="text-muted-foreground">p. {source.page}</span>}
+                                        {source.version && <span className="text-muted-foreground">v{source.version}</span>}
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    </div>
+                  </div>
+                </TabsContent>
+                <TabsContent value="history" className="mt-0">
+                  <DocumentHistory
+                    documentId={document.id}
+                    reloadKey={reloadKey}
+                    canRestore={role === 'admin'}
+                    onRestored={() => setReloadKey((key) => key + 1)}
+                  />
+                </TabsContent>
+              </Tabs>
+            ) : null}
+          </div>
+        </ScrollArea>
+      </div>
+
+      {(role === 'admin' || role === 'legal_analyst') && (
+        <EditDocumentDialog
+          documentId={isEditing ? id ?? null : null}
+          onOpenChange={setIsEditing}
+          onSaved={() => setReloadKey((key) => key + 1)}
+        />
+      )}
+    </AppLayout>
+  );
+}
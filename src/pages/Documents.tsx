@@ -1,11 +1,11 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
 import { supabase } from '@/integrations/supabase/client';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -31,13 +31,29 @@ import {
   Search,
   Filter,
   CheckCircle,
-  Clock,
   Trash2,
   Eye,
+  Pencil,
+  RefreshCw,
+  FileArchive,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-
-type LegalDomain = 'criminal' | 'civil' | 'corporate' | 'constitutional' | 'labor' | 'tax' | 'property' | 'family' | 'environmental' | 'intellectual_property' | 'general';
+import { DOMAINS, LegalDomain, getDomainLabel } from '@/lib/legal';
+import { DocumentFormValues, EMPTY_DOCUMENT_FORM, toDocumentColumns } from '@/lib/document-form';
+import {
+  removeDocumentFile,
+  titleFromFileName,
+  uploadDocumentFile,
+  validateDocumentFile,
+  UploadedFile,
+} from '@/lib/document-files';
+import { FileDropzone } from '@/components/documents/FileDropzone';
+import { BulkImportDialog } from '@/components/documents/BulkImportDialog';
+import { DocumentStatusBadges } from '@/components/documents/DocumentStatusBadges';
+import { DocumentFormFields } from '@/components/documents/DocumentFormFields';
+import { EditDocumentDialog } from '@/components/documents/EditDocumentDialog';
+
+type IndexingStatus = 'queued' | 'indexing' | 'indexed' | 'failed';
 
 interface Document {
   id: string;
@@ -48,22 +64,13 @@ interface Document {
   year: number | null;
   tags: string[] | null;
   validated: boolean;
+  indexing_status: IndexingStatus;
+  indexing_error: string | null;
+  file_path: string | null;
   created_at: string;
 }
 
-const DOMAINS: { value: LegalDomain; label: string }[] = [
-  { value: 'general', label: 'General' },
-  { value: 'criminal', label: 'Criminal Law' },
-  { value: 'civil', label: 'Civil Law' },
-  { value: 'corporate', label: 'Corporate Law' },
-  { value: 'constitutional', label: 'Constitutional Law' },
-  { value: 'labor', label: 'Labor Law' },
-  { value: 'tax', label: 'Tax Law' },
-  { value: 'property', label: 'Property Law' },
-  { value: 'family', label: 'Family Law' },
-  { value: 'environmental', label: 'Environmental Law' },
-  { value: 'intellectual_property', label: 'Intellectual Property' },
-];
+const INDEXING_POLL_INTERVAL = 5000;
 
 export default function Documents() {
   const { user, role } = useAuth();
@@ -73,20 +80,29 @@ export default function Documents() {
   const [filterDomain, setFilterDomain] = useState<string>('all');
   const [isUploadOpen, setIsUploadOpen] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   // Upload form state
-  const [uploadTitle, setUploadTitle] = useState('');
-  const [uploadDescription, setUploadDescription] = useState('');
-  const [uploadDomain, setUploadDomain] = useState<LegalDomain>('general');
-  const [uploadJurisdiction, setUploadJurisdiction] = useState('');
-  const [uploadYear, setUploadYear] = useState('');
-  const [uploadTags, setUploadTags] = useState('');
-  const [uploadContent, setUploadContent] = useState('');
+  const [uploadValues, setUploadValues] = useState<DocumentFormValues>(EMPTY_DOCUMENT_FORM);
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
 
   useEffect(() => {
     fetchDocuments();
   }, []);
 
+  // Keep polling while any document is still waiting on its embeddings
+  const hasPendingIndexing = documents.some(
+    (doc) => doc.indexing_status === 'queued' || doc.indexing_status === 'indexing'
+  );
+
+  useEffect(() => {
+    if (!hasPendingIndexing) return;
+
+    const interval = setInterval(fetchDocuments, INDEXING_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasPendingIndexing]);
+
   const fetchDocuments = async () => {
     const { data, error } = await supabase
       .from('legal_documents')
@@ -101,11 +117,48 @@ export default function Documents() {
     setDocuments(data as Document[] || []);
   };
 
+  const indexDocument = async (id: string) => {
+    setDocuments((prev) =>
+      prev.map((doc) => (doc.id === id ? { ...doc, indexing_status: 'indexing', indexing_error: null } : doc))
+    );
+
+    const { error } = await supabase.functions.invoke('ingest-document', {
+      body: { documentId: id },
+    });
+
+    if (error) {
+      toast({
+        title: 'Indexing failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+
+    fetchDocuments();
+  };
+
+  const handleFileChange = (file: File | null) => {
+    const problem = file && validateDocumentFile(file);
+    if (problem) {
+      toast({
+        title: 'Unsupported file',
+        description: problem,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setUploadFile(file);
+    if (file && !uploadValues.title) {
+      setUploadValues({ ...uploadValues, title: titleFromFileName(file.name) });
+    }
+  };
+
   const handleUpload = async () => {
-    if (!user || !uploadTitle || !uploadContent) {
+    if (!user || !uploadValues.title.trim() || (!uploadValues.content && !uploadFile)) {
       toast({
         title: 'Missing required fields',
-        description: 'Please fill in title and content.',
+        description: 'Please fill in a title and attach a file or paste the content.',
         variant: 'destructive',
       });
       return;
@@ -113,19 +166,33 @@ export default function Documents() {
 
     setIsUploading(true);
 
-    const { error } = await supabase.from('legal_documents').insert({
-      title: uploadTitle,
-      description: uploadDescription || null,
-      content: uploadContent,
-      domain: uploadDomain,
-      jurisdiction: uploadJurisdiction || null,
-      year: uploadYear ? parseInt(uploadYear) : null,
-      tags: uploadTags ? uploadTags.split(',').map((t) => t.trim()) : null,
+    // The original goes to storage first; its text is extracted when the document is indexed.
+    let uploaded: UploadedFile | null = null;
+    if (uploadFile) {
+      try {
+        uploaded = await uploadDocumentFile(uploadFile);
+      } catch (error) {
+        toast({
+          title: 'Upload failed',
+          description: error instanceof Error ? error.message : 'Could not store the file.',
+          variant: 'destructive',
+        });
+        setIsUploading(false);
+        return;
+      }
+    }
+
+    const { data, error } = await supabase.from('legal_documents').insert({
+      ...toDocumentColumns(uploadValues),
+      content: uploaded ? null : uploadValues.content,
+      ...uploaded,
       uploaded_by: user.id,
-      validated: role === 'admin',
-    });
+      // Text extracted from a file later has not been read by anyone yet
+      validated: role === 'admin' && !uploaded,
+    }).select('id').single();
 
     if (error) {
+      if (uploaded) removeDocumentFile(uploaded.file_path);
       toast({
         title: 'Upload failed',
         description: error.message,
@@ -137,23 +204,29 @@ export default function Documents() {
 
     toast({
       title: 'Document uploaded',
-      description: role === 'admin' 
-        ? 'Document has been added and validated.'
-        : 'Document has been added and is pending validation.',
+      description: uploaded
+        ? 'Document has been added and is pending validation. Its text will be extracted while it is indexed.'
+        : role === 'admin'
+          ? 'Document has been added and validated.'
+          : 'Document has been added and is pending validation.',
     });
 
     // Reset form
-    setUploadTitle('');
-    setUploadDescription('');
-    setUploadDomain('general');
-    setUploadJurisdiction('');
-    setUploadYear('');
-    setUploadTags('');
-    setUploadContent('');
+    setUploadValues(EMPTY_DOCUMENT_FORM);
+    setUploadFile(null);
     setIsUploadOpen(false);
     setIsUploading(false);
 
     fetchDocuments();
+    indexDocument(data.id);
+  };
+
+  // Index imported documents one after another rather than all at once.
+  const handleImported = async (ids: string[]) => {
+    fetchDocuments();
+    for (const id of ids) {
+      await indexDocument(id);
+    }
   };
 
   const handleValidate = async (id: string) => {
@@ -181,10 +254,10 @@ export default function Documents() {
     fetchDocuments();
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (doc: Document) => {
     if (role !== 'admin') return;
 
-    const { error } = await supabase.from('legal_documents').delete().eq('id', id);
+    const { error } = await supabase.from('legal_documents').delete().eq('id', doc.id);
 
     if (error) {
       toast({
@@ -195,6 +268,10 @@ export default function Documents() {
       return;
     }
 
+    if (doc.file_path) {
+      removeDocumentFile(doc.file_path);
+    }
+
     toast({
       title: 'Document deleted',
     });
@@ -221,115 +298,59 @@ export default function Documents() {
                 <p className="text-muted-foreground">Manage and validate legal documents for AI retrieval</p>
               </div>
 
-              <Dialog open={isUploadOpen} onOpenChange={setIsUploadOpen}>
-                <DialogTrigger asChild>
-                  <Button className="gap-2">
-                    <Upload className="h-4 w-4" />
-                    Upload Document
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-                  <DialogHeader>
-                    <DialogTitle className="font-serif">Upload Legal Document</DialogTitle>
-                    <DialogDescription>
-                      Add a new legal document to the knowledge base.
-                    </DialogDescription>
-                  </DialogHeader>
-
-                  <div className="space-y-4 py-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="title">Title *</Label>
-                      <Input
-                        id="title"
-                        placeholder="Document title"
-                        value={uploadTitle}
-                        onChange={(e) => setUploadTitle(e.target.value)}
-                      />
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="description">Description</Label>
-                      <Textarea
-                        id="description"
-                        placeholder="Brief description of the document"
-                        value={uploadDescription}
-                        onChange={(e) => setUploadDescription(e.target.value)}
-                      />
-                    </div>
-
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="domain">Legal Domain</Label>
-                        <Select value={uploadDomain} onValueChange={(v) => setUploadDomain(v as LegalDomain)}>
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {DOMAINS.map((d) => (
-                              <SelectItem key={d.value} value={d.value}>
-                                {d.label}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="jurisdiction">Jurisdiction</Label>
-                        <Input
-                          id="jurisdiction"
-                          placeholder="e.g., United States"
-                          value={uploadJurisdiction}
-                          onChange={(e) => setUploadJurisdiction(e.target.value)}
-                        />
-                      </div>
-                    </div>
-
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="year">Year</Label>
-                        <Input
-                          id="year"
-                          type="number"
-                          placeholder="e.g., 2024"
-                          value={uploadYear}
-                          onChange={(e) => setUploadYear(e.target.value)}
-                        />
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="tags">Tags (comma-separated)</Label>
-                        <Input
-                          id="tags"
-                          placeholder="e.g., contract, employment"
-                          value={uploadTags}
-                          onChange={(e) => setUploadTags(e.target.value)}
-                        />
-                      </div>
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="content">Document Content *</Label>
-                      <Textarea
-                        id="content"
-                        placeholder="Paste the full text of the legal document..."
-                        className="min-h-[200px]"
-                        value={uploadContent}
-                        onChange={(e) => setUploadContent(e.target.value)}
-                      />
-                    </div>
-                  </div>
-
-                  <DialogFooter>
-                    <Button variant="outline" onClick={() => setIsUploadOpen(false)}>
-                      Cancel
+              <div className="flex gap-2">
+                {(role === 'admin' || role === 'legal_analyst') && (
+                  <>
+                    <Button variant="outline" className="gap-2" onClick={() => setIsImportOpen(true)}>
+                      <FileArchive className="h-4 w-4" />
+                      Bulk Import
                     </Button>
-                    <Button onClick={handleUpload} disabled={isUploading}>
-                      {isUploading ? 'Uploading...' : 'Upload Document'}
+                    <BulkImportDialog
+                      open={isImportOpen}
+                      onOpenChange={setIsImportOpen}
+                      onImported={handleImported}
+                    />
+                  </>
+                )}
+
+                <Dialog open={isUploadOpen} onOpenChange={setIsUploadOpen}>
+                  <DialogTrigger asChild>
+                    <Button className="gap-2">
+                      <Upload className="h-4 w-4" />
+                      Upload Document
                     </Button>
-                  </DialogFooter>
-                </DialogContent>
-              </Dialog>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                      <DialogTitle className="font-serif">Upload Legal Document</DialogTitle>
+                      <DialogDescription>
+                        Add a new legal document to the knowledge base.
+                      </DialogDescription>
+                    </DialogHeader>
+
+                    <DocumentFormFields
+                      values={uploadValues}
+                      onChange={setUploadValues}
+                      showContent={!uploadFile}
+                      contentLabel="Or paste the document content"
+                    >
+                      <div className="space-y-2">
+                        <Label>File</Label>
+                        <FileDropzone file={uploadFile} onFileChange={handleFileChange} disabled={isUploading} />
+                      </div>
+                    </DocumentFormFields>
+
+                    <DialogFooter>
+                      <Button variant="outline" onClick={() => setIsUploadOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button onClick={handleUpload} disabled={isUploading}>
+                        {isUploading ? 'Uploading...' : 'Upload Document'}
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
+              </div>
             </div>
 
             {/* Search and Filter */}
@@ -383,24 +404,47 @@ export default function Documents() {
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-2 mb-1">
                             <CardTitle className="font-serif text-lg truncate">{doc.title}</CardTitle>
-                            {doc.validated ? (
-                              <Badge variant="outline" className="gap-1 bg-success/10 text-success border-success/20">
-                                <CheckCircle className="h-3 w-3" />
-                                Validated
-                              </Badge>
-                            ) : (
-                              <Badge variant="outline" className="gap-1 bg-warning/10 text-warning border-warning/20">
-                                <Clock className="h-3 w-3" />
-                                Pending
-                              </Badge>
-                            )}
+                            <DocumentStatusBadges
+                              validated={doc.validated}
+                              indexingStatus={doc.indexing_status}
+                              indexingError={doc.indexing_error}
+                            />
                           </div>
                           <CardDescription className="line-clamp-2">
                             {doc.description || 'No description provided'}
                           </CardDescription>
                         </div>
                         <div className="flex gap-2">
-                          {!doc.validated && (role === 'admin' || role === 'legal_analyst') && (
+                          <Button variant="outline" size="sm" asChild>
+                            <Link to={`/documents/${doc.id}`} aria-label="View document">
+                              <Eye className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                          {(role === 'admin' || role === 'legal_analyst') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setEditingId(doc.id)}
+                              aria-label="Edit document"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {(doc.indexing_status === 'failed' || doc.indexing_status === 'queued') &&
+                            (role === 'admin' || role === 'legal_analyst') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => indexDocument(doc.id)}
+                            >
+                              <RefreshCw className="h-4 w-4 mr-1" />
+                              {doc.indexing_status === 'failed' ? 'Retry' : 'Index'}
+                            </Button>
+                          )}
+                          {/* An uploaded file's text only exists once it has been extracted and indexed */}
+                          {!doc.validated &&
+                            (!doc.file_path || doc.indexing_status === 'indexed') &&
+                            (role === 'admin' || role === 'legal_analyst') && (
                             <Button
                               variant="outline"
                               size="sm"
@@ -415,7 +459,7 @@ export default function Documents() {
                               variant="outline"
                               size="sm"
                               className="text-destructive hover:text-destructive"
-                              onClick={() => handleDelete(doc.id)}
+                              onClick={() => handleDelete(doc)}
                             >
                               <Trash2 className="h-4 w-4" />
                             </Button>
@@ -426,7 +470,7 @@ export default function Documents() {
                     <CardContent>
                       <div className="flex flex-wrap gap-2">
                         <Badge variant="secondary">
-                          {DOMAINS.find((d) => d.value === doc.domain)?.label || doc.domain}
+                          {getDomainLabel(doc.domain)}
                         </Badge>
                         {doc.jurisdiction && (
                           <Badge variant="outline">{doc.jurisdiction}</Badge>
@@ -448,6 +492,12 @@ export default function Documents() {
           </div>
         </ScrollArea>
       </div>
+
+      <EditDocumentDialog
+        documentId={editingId}
+        onOpenChange={(open) => !open && setEditingId(null)}
+        onSaved={fetchDocuments}
+      />
     </AppLayout>
   );
 }
@@ -0,0 +1,38 @@
+import { AppLayout } from '@/components/layout/AppLayout';
+import { PromptTemplateSettings } from '@/components/settings/PromptTemplateSettings';
+import { QuotaSettings } from '@/components/settings/QuotaSettings';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+export default function Settings() {
+  return (
+    <AppLayout>
+      <Tabs defaultValue="prompts" className="flex flex-col h-full">
+        {/* Header */}
+        <div className="border-b border-border bg-card p-6">
+          <div className="max-w-6xl mx-auto flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-serif font-bold text-foreground">Settings</h1>
+              <p className="text-muted-foreground">Configure how LexAdvisor answers and who can use it</p>
+            </div>
+            <TabsList>
+              <TabsTrigger value="prompts">Prompts</TabsTrigger>
+              <TabsTrigger value="quotas">Usage quotas</TabsTrigger>
+            </TabsList>
+          </div>
+        </div>
+
+        <ScrollArea className="flex-1">
+          <div className="max-w-6xl mx-auto p-6">
+            <TabsContent value="prompts" className="mt-0">
+              <PromptTemplateSettings />
+            </TabsContent>
+            <TabsContent value="quotas" className="mt-0">
+              <QuotaSettings />
+            </TabsContent>
+          </div>
+        </ScrollArea>
+      </Tabs>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import { ChatMessage, ChatSource, Grounding } from '@/components/chat/ChatMessage';
+import { Button } from '@/components/ui/button';
+import { Scale, Link2Off, Lock } from 'lucide-react';
+
+interface SharedMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources: ChatSource[] | null;
+  interrupted: boolean;
+  grounding: Grounding | null;
+  created_at: string;
+}
+
+interface SharedConversationData {
+  title: string;
+  shared_at: string;
+  expires_at: string | null;
+  messages: SharedMessage[];
+}
+
+// Public, read-only view of a conversation opened from a share link
+export default function SharedConversation() {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading } = useAuth();
+  const [conversation, setConversation] = useState<SharedConversationData | null>(null);
+  const [error, setError] = useState<{ status: number; message: string } | null>(null);
+
+  useEffect(() => {
+    // Wait for the session so members-only links receive the viewer's token
+    if (loading || !token) return;
+
+    const fetchConversation = async () => {
+      const { data, error } = await supabase.functions.invoke('shared-conversation', {
+        body: { token },
+      });
+
+      if (error) {
+        const status = error instanceof FunctionsHttpError ? error.context.status : 500;
+        const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+        console.error('Error fetching shared conversation:', error);
+        setError({ status, message: body?.error || 'This conversation could not be loaded.' });
+        return;
+      }
+
+      setConversation(data);
+    };
+
+    fetchConversation();
+  }, [token, loading, user]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="max-w-3xl mx-auto flex items-center justify-between gap-4 px-6 h-16">
+          <Link to="/" className="flex items-center gap-2">
+            <Scale className="h-7 w-7 text-primary" />
+            <span className="text-lg font-serif font-bold text-foreground">LexAdvisor</span>
+          </Link>
+          <span className="text-xs text-muted-foreground">Shared conversation · read-only</span>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-6">
+        {error ? (
+          <div className="flex flex-col items-center text-center py-20">
+            {error.status === 401 ? (
+              <Lock className="h-12 w-12 text-muted-foreground mb-4" />
+            ) : (
+              <Link2Off className="h-12 w-12 text-muted-foreground mb-4" />
+            )}
+            <p className="text-muted-foreground mb-4">
+              {error.status === 401
+                ? 'This conversation is only shared with signed-in members.'
+                : error.message}
+            </p>
+            {error.status === 401 && (
+              <Button asChild>
+                <Link to="/auth">Sign in</Link>
+              </Button>
+            )}
+          </div>
+        ) : !conversation ? (
+          <div className="flex justify-center py-20">
+            <div className="animate-pulse-soft text-muted-foreground">Loading...</div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-1">
+              <h1 className="text-2xl font-serif font-bold text-foreground">{conversation.title}</h1>
+              <p className="text-sm text-muted-foreground">
+                Shared {new Date(conversation.shared_at).toLocaleDateString()}
+                {conversation.expires_at &&
+                  ` · link expires ${new Date(conversation.expires_at).toLocaleDateString()}`}
+              </p>
+            </div>
+
+            {conversation.messages.map((message) => (
+              <ChatMessage
+                key={message.id}
+                role={message.role}
+                content={message.content}
+                sources={message.sources ?? undefined}
+                interrupted={message.interrupted}
+                grounding={message.grounding}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
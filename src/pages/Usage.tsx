@@ -0,0 +1,290 @@
+import { useState, useEffect } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Coins, Hash, MessageSquare, Timer } from 'lucide-react';
+
+interface DailyUsage {
+  day: string;
+  messages: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  estimated_messages: number;
+  cost_usd: number | null;
+  avg_latency_ms: number | null;
+}
+
+interface UserUsage {
+  user_id: string;
+  full_name: string | null;
+  conversations: number;
+  messages: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number | null;
+}
+
+interface ConversationUsage {
+  conversation_id: string;
+  title: string;
+  full_name: string | null;
+  messages: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number | null;
+  last_message_at: string;
+}
+
+const PERIODS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+const chartConfig = {
+  prompt_tokens: { label: 'Prompt tokens', color: 'hsl(var(--primary))' },
+  completion_tokens: { label: 'Completion tokens', color: 'hsl(var(--secondary))' },
+} satisfies ChartConfig;
+
+const formatNumber = (value: number) => Number(value).toLocaleString();
+const formatCost = (value: number | null) =>
+  value === null ? '—' : `$${Number(value).toFixed(Number(value) < 1 ? 4 : 2)}`;
+
+export default function Usage() {
+  const [period, setPeriod] = useState('30');
+  const [days, setDays] = useState<DailyUsage[]>([]);
+  const [users, setUsers] = useState<UserUsage[]>([]);
+  const [conversations, setConversations] = useState<ConversationUsage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      setIsLoading(true);
+
+      const range = {
+        _from: new Date(Date.now() - Number(period) * 24 * 60 * 60 * 1000).toISOString(),
+        _to: new Date().toISOString(),
+      };
+      const [byDay, byUser, byConversation] = await Promise.all([
+        supabase.rpc('get_usage_by_day', range),
+        supabase.rpc('get_usage_by_user', range),
+        supabase.rpc('get_usage_by_conversation', range),
+      ]);
+
+      const error = byDay.error || byUser.error || byConversation.error;
+      if (error) {
+        console.error('Error fetching usage:', error);
+      }
+
+      setDays(byDay.data || []);
+      setUsers(byUser.data || []);
+      setConversations(byConversation.data || []);
+      setIsLoading(false);
+    };
+
+    fetchUsage();
+  }, [period]);
+
+  const totals = days.reduce(
+    (sum, day) => ({
+      messages: sum.messages + Number(day.messages),
+      tokens: sum.tokens + Number(day.prompt_tokens) + Number(day.completion_tokens),
+      estimated: sum.estimated + Number(day.estimated_messages),
+      cost: day.cost_usd === null ? sum.cost : (sum.cost ?? 0) + Number(day.cost_usd),
+      latency: sum.latency + Number(day.avg_latency_ms ?? 0) * Number(day.messages),
+    }),
+    { messages: 0, tokens: 0, estimated: 0, cost: null as number | null, latency: 0 }
+  );
+
+  const stats = [
+    { label: 'Answers', value: formatNumber(totals.messages), icon: MessageSquare },
+    {
+      label: 'Tokens',
+      value: formatNumber(totals.tokens),
+      icon: Hash,
+      note: totals.estimated > 0 ? `${formatNumber(totals.estimated)} answers estimated` : undefined,
+    },
+    { label: 'Cost', value: formatCost(totals.cost), icon: Coins },
+    {
+      label: 'Avg. latency',
+      value: totals.messages ? `${(totals.latency / totals.messages / 1000).toFixed(1)} s` : '—',
+      icon: Timer,
+    },
+  ];
+
+  return (
+    <AppLayout>
+      <div className="flex flex-col h-full">
+        {/* Header */}
+        <div className="border-b border-border bg-card p-6">
+          <div className="max-w-6xl mx-auto flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-serif font-bold text-foreground">Usage</h1>
+              <p className="text-muted-foreground">Tokens, cost and latency of LexAdvisor's answers</p>
+            </div>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger className="w-full sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map((p) => (
+                  <SelectItem key={p.value} value={p.value}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <ScrollArea className="flex-1">
+          <div className="max-w-6xl mx-auto p-6 space-y-6">
+            {isLoading ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">Loading usage...</p>
+              </div>
+            ) : (
+              <>
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                  {stats.map((stat) => {
+                    const Icon = stat.icon;
+                    return (
+                      <Card key={stat.label} className="shadow-card">
+                        <CardContent className="p-4">
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Icon className="h-4 w-4" />
+                            {stat.label}
+                          </div>
+                          <p className="text-2xl font-semibold text-foreground mt-1">{stat.value}</p>
+                          {stat.note && <p className="text-xs text-muted-foreground">{stat.note}</p>}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+
+                <Card className="shadow-card">
+                  <CardHeader>
+                    <CardTitle className="font-serif text-lg">Tokens per day</CardTitle>
+                    <CardDescription>UTC days</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={chartConfig} className="h-64 w-full">
+                      <BarChart data={days}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="day" tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} width={60} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="prompt_tokens" stackId="tokens" fill="var(--color-prompt_tokens)" />
+                        <Bar
+                          dataKey="completion_tokens"
+                          stackId="tokens"
+                          fill="var(--color-completion_tokens)"
+                        />
+                      </BarChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                <Card className="shadow-card">
+                  <CardHeader>
+                    <CardTitle className="font-serif text-lg">By user</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>User</TableHead>
+                          <TableHead className="text-right">Conversations</TableHead>
+                          <TableHead className="text-right">Answers</TableHead>
+                          <TableHead className="text-right">Prompt tokens</TableHead>
+                          <TableHead className="text-right">Completion tokens</TableHead>
+                          <TableHead className="text-right">Cost</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {users.map((u) => (
+                          <TableRow key={u.user_id}>
+                            <TableCell>{u.full_name || `${u.user_id.slice(0, 8)}...`}</TableCell>
+                            <TableCell className="text-right">{formatNumber(u.conversations)}</TableCell>
+                            <TableCell className="text-right">{formatNumber(u.messages)}</TableCell>
+                            <TableCell className="text-right">{formatNumber(u.prompt_tokens)}</TableCell>
+                            <TableCell className="text-right">{formatNumber(u.completion_tokens)}</TableCell>
+                            <TableCell className="text-right">{formatCost(u.cost_usd)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+
+                <Card className="shadow-card">
+                  <CardHeader>
+                    <CardTitle className="font-serif text-lg">By conversation</CardTitle>
+                    <CardDescription>The 50 conversations that used the most tokens</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Conversation</TableHead>
+                          <TableHead>User</TableHead>
+                          <TableHead className="text-right">Answers</TableHead>
+                          <TableHead className="text-right">Tokens</TableHead>
+                          <TableHead className="text-right">Cost</TableHead>
+                          <TableHead className="text-right">Last answer</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {conversations.map((c) => (
+                          <TableRow key={c.conversation_id}>
+                            <TableCell className="max-w-[240px] truncate">{c.title}</TableCell>
+                            <TableCell>{c.full_name || '—'}</TableCell>
+                            <TableCell className="text-right">{formatNumber(c.messages)}</TableCell>
+                            <TableCell className="text-right">
+                              {formatNumber(Number(c.prompt_tokens) + Number(c.completion_tokens))}
+                            </TableCell>
+                            <TableCell className="text-right">{formatCost(c.cost_usd)}</TableCell>
+                            <TableCell className="text-right text-muted-foreground">
+                              {new Date(c.last_message_at).toLocaleDateString()}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </AppLayout>
+  );
+}
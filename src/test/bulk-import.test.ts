@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { buildErrorReport, parseCsv, parseManifest, planImport } from "@/lib/bulk-import";
+
+describe("bulk import", () => {
+  it("parses quoted CSV fields with commas, quotes and line breaks", () => {
+    expect(parseCsv('file,title\r\na.pdf,"Code, ""civil""\nbook I"\r\n\r\n')).toEqual([
+      ["file", "title"],
+      ["a.pdf", 'Code, "civil"\nbook I'],
+    ]);
+  });
+
+  it("validates manifest rows against the ZIP and the legal domains", () => {
+    const manifest = parseManifest(
+      [
+        "File,Title,Domain,Year,Tags",
+        "statutes/labor.pdf,Labour Code,labor,2019,employment; contracts",
+        "missing.docx,Gone,civil,,",
+        "tax.html,Tax Act,taxes,20x9,",
+      ].join("\n"),
+      "manifest.csv"
+    );
+    const items = planImport(
+      [{ path: "statutes/labor.pdf" }, { path: "statutes/tax.html" }, { path: "notes/extra_rules.txt" }],
+      manifest
+    );
+
+    expect(items[0]).toMatchObject({
+      path: "statutes/labor.pdf",
+      row: 2,
+      domain: "labor",
+      year: 2019,
+      tags: ["employment", "contracts"],
+      errors: [],
+    });
+    expect(items[1].errors).toEqual(["missing.docx is not in the ZIP"]);
+    expect(items[2].errors).toHaveLength(2);
+    expect(items[2].errors[0]).toMatch(/^Unknown domain "taxes"/);
+    expect(items[3]).toMatchObject({ path: "notes/extra_rules.txt", title: "extra rules", domain: "general" });
+    expect(items[3].warnings).toHaveLength(1);
+  });
+
+  it("imports manifest rows that carry their own content", () => {
+    const items = planImport([], parseManifest('[{"title":"Rule 1","content":"Text","domain":"Civil"}]', "m.json"));
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ path: null, content: "Text", domain: "civil", errors: [] });
+  });
+
+  it("reports skipped and failed rows", () => {
+    const items = planImport([{ path: "a.pdf" }, { path: "b.exe" }], null);
+    const report = buildErrorReport(items, ["failed", "skipped"], { 0: "Upload failed, retry" });
+
+    expect(report.split("\r\n")).toEqual([
+      "manifest_row,file,title,status,error",
+      ',a.pdf,a,failed,"Upload failed, retry"',
+      ',b.exe,b,skipped,"Unsupported file type; use PDF, DOCX, HTML or plain text"',
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { readChatStream } from "@/lib/chat-stream";
+
+function streamOf(chunks: string[]) {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    })
+  );
+}
+
+describe("readChatStream", () => {
+  it("collects deltas and named events, including those after [DONE]", async () => {
+    const deltas: string[] = [];
+    const events: [string, unknown][] = [];
+
+    await readChatStream(
+      streamOf([
+        'event: sources\ndata: [{"title":"Tenancy Act"}]\n\n',
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"del',
+        'ta":{"content":"lo"}}]}\n\ndata: [DONE]\n\n',
+        'event: assistant_message\ndata: {"id":"abc"}\n\n',
+      ]),
+      {
+        onDelta: (content) => deltas.push(content),
+        onEvent: (event, data) => events.push([event, data]),
+      }
+    );
+
+    expect(deltas.join("")).toBe("Hello");
+    expect(events).toEqual([
+      ["sources", [{ title: "Tenancy Act" }]],
+      ["assistant_message", { id: "abc" }],
+    ]);
+  });
+});
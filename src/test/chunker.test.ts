@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { chunkDocument } from "../../supabase/functions/ingest-document/chunker.ts";
+
+describe("document chunker", () => {
+  it("splits at article boundaries and records where each chunk sits", () => {
+    const text = "Article 1. Scope\nThis code applies to contracts.\n\nArticle 2. Form\nContracts need no form.";
+    const chunks = chunkDocument(text);
+
+    expect(chunks.map((c) => [c.chunk_index, c.metadata.heading])).toEqual([
+      [0, "Article 1. Scope"],
+      [1, "Article 2. Form"],
+    ]);
+    chunks.forEach((chunk) => {
+      expect(text.slice(chunk.metadata.char_start, chunk.metadata.char_end)).toBe(chunk.chunk_text);
+    });
+    expect(chunks[1].chunk_text).toBe("Article 2. Form\nContracts need no form.");
+  });
+
+  it("does not split on prose that starts with a unit keyword", () => {
+    const text =
+      "Section 4\nThe court held the clause void.\nPart of the claim fails for want of notice.\n" +
+      "Title of the land passed on delivery.\nRule of law requires the same.";
+    const chunks = chunkDocument(text);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].metadata.heading).toBe("Section 4");
+  });
+
+  it("overlaps long sections without starting mid-word", () => {
+    const sentences = Array.from({ length: 120 }, (_, i) => `Sentence ${i} sets out a further obligation.`);
+    const text = `Chapter 1\n${sentences.join(" ")}`;
+    const chunks = chunkDocument(text);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = chunks[i - 1].metadata;
+      const { char_start } = chunks[i].metadata;
+
+      expect(chunks[i].chunk_text.length).toBeLessThanOrEqual(1500);
+      expect(char_start).toBeLessThan(previous.char_end);
+      expect(previous.char_end - char_start).toBeLessThanOrEqual(200);
+      expect(text[char_start - 1]).toBe(" ");
+      expect(chunks[i].metadata.heading).toBe("Chapter 1");
+    }
+  });
+
+  it("numbers pages only for paginated text", () => {
+    const paginated = chunkDocument("Article 1\nOn the first page.\n\f\nArticle 2\nOn the second page.");
+
+    expect(paginated.map((c) => [c.metadata.page, c.metadata.page_end])).toEqual([
+      [1, 1],
+      [2, 2],
+    ]);
+    expect(chunkDocument("Article 1\nNo page breaks here.")[0].metadata.page).toBeNull();
+  });
+});
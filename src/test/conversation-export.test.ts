@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from "vitest";
+import JSZip from "jszip";
+import {
+  buildBibliography,
+  downloadBlob,
+  ExportConversation,
+  exportFileName,
+  toDocx,
+  toMarkdown,
+} from "@/lib/conversation-export";
+
+const conversation: ExportConversation = {
+  title: "Notice periods",
+  messages: [
+    { role: "user", content: "How much notice must I give?", created_at: "2026-10-19T10:00:00Z" },
+    {
+      role: "assistant",
+      content: "## Answer\n\nAt least **one month** [1], unless the contract says more [2].",
+      sources: [
+        { index: 1, document_id: "labour-code", title: "Labour Code", domain: "labor" },
+        { index: 2, document_id: "contract-act", title: "Contract Act", jurisdiction: "France" },
+      ],
+      interrupted: true,
+      created_at: "2026-10-19T10:00:05Z",
+    },
+    {
+      role: "assistant",
+      content: "See also the same code.",
+      sources: [{ document_id: "labour-code", title: "Labour Code", domain: "labor" }],
+      created_at: "2026-10-19T10:01:00Z",
+    },
+  ],
+};
+
+describe("conversation export", () => {
+  it("lists each cited document once, in order of first citation", () => {
+    expect(buildBibliography(conversation.messages)).toEqual([
+      "Labour Code — Labor Law",
+      "Contract Act — France",
+    ]);
+  });
+
+  it("writes Markdown with speakers, numbered sources and a bibliography", () => {
+    const markdown = toMarkdown(conversation);
+
+    expect(markdown.startsWith("# Notice periods\n")).toBe(true);
+    expect(markdown).toContain("### You — ");
+    expect(markdown).toContain("- [1] Labour Code — Labor Law\n- [2] Contract Act — France");
+    expect(markdown).toContain("_Response stopped before it was complete._");
+    // Sources without an index are numbered by position
+    expect(markdown).toContain("- [1] Labour Code — Labor Law\n\n---\n\n## Bibliography");
+    expect(markdown.endsWith("- Contract Act — France\n")).toBe(true);
+  });
+
+  it("derives a safe file name from the title", () => {
+    expect(exportFileName("Notice periods: France / 2026!", "md")).toBe("notice-periods-france-2026.md");
+    expect(exportFileName("¿?", "docx")).toBe("conversation.docx");
+  });
+
+  it("builds a Word document holding the conversation", async () => {
+    const zip = await JSZip.loadAsync(await toDocx(conversation));
+    const body = await zip.file("word/document.xml")!.async("string");
+
+    expect(body).toContain("Notice periods");
+    expect(body).toContain("one month");
+    expect(body).toContain("[2] Contract Act — France");
+    expect(body).toContain("Bibliography");
+  });
+
+  it("revokes the download URL only after the click has been handled", () => {
+    vi.useFakeTimers();
+    const revoke = vi.fn();
+    Object.assign(URL, { createObjectURL: () => "blob:export", revokeObjectURL: revoke });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+
+    downloadBlob(new Blob(["# Notes"]), "notes.md");
+
+    expect(click).toHaveBeenCalled();
+    expect(revoke).not.toHaveBeenCalled();
+    vi.runAllTimers();
+    expect(revoke).toHaveBeenCalledWith("blob:export");
+
+    click.mockRestore();
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { extractHeadings, segmentContent } from "@/lib/document-outline";
+
+describe("document outline", () => {
+  it("finds headings with their offsets and levels", () => {
+    const content = "Preamble text\nCHAPTER I\n  Article 1. Scope\nThis code applies.\n§ 2 Definitions";
+
+    expect(extractHeadings(content)).toEqual([
+      { text: "CHAPTER I", start: 14, end: 23, level: 1 },
+      { text: "Article 1. Scope", start: 26, end: 42, level: 2 },
+      { text: "§ 2 Definitions", start: 62, end: 77, level: 2 },
+    ]);
+  });
+
+  it("only treats numbered units as headings", () => {
+    const content = "Part of the claim fails.\nRule of law\nPart civil, part criminal\nPart 2\nTitle VII: Remedies\nRule 12(b)(6)";
+
+    expect(extractHeadings(content).map((h) => h.text)).toEqual(["Part 2", "Title VII: Remedies", "Rule 12(b)(6)"]);
+  });
+
+  it("marks overlapping chunks and where each one starts", () => {
+    const segments = segmentContent(
+      10,
+      [{ text: "AB", start: 0, end: 2, level: 1 }],
+      [
+        { index: 0, start: 0, end: 6, page: null },
+        { index: 1, start: 4, end: 10, page: null },
+      ]
+    );
+
+    expect(segments.map((s) => [s.start, s.end, s.chunks, s.inHeading])).toEqual([
+      [0, 2, [0], true],
+      [2, 4, [0], false],
+      [4, 6, [0, 1], false],
+      [6, 10, [1], false],
+    ]);
+    expect(segments[2].chunkStart?.index).toBe(1);
+    expect(segments[0].heading?.text).toBe("AB");
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { GroundingPolicy, scoreGrounding, shouldRefuse } from "../../supabase/functions/legal-chat/grounding.ts";
+
+const strict: GroundingPolicy = { minSimilarity: 0.6, mode: "strict" };
+const chunks = (...similarities: number[]) => similarities.map((similarity) => ({ similarity }));
+
+describe("grounding", () => {
+  it("refuses when nothing was retrieved, unless lenient", () => {
+    expect(shouldRefuse([], strict)).toBe(true);
+    expect(shouldRefuse([], { ...strict, mode: "lenient" })).toBe(false);
+    expect(scoreGrounding("An answer from general knowledge.", [], strict)).toEqual({
+      score: 0,
+      retrieval: 0,
+      coverage: 0,
+      covered: false,
+    });
+  });
+
+  it("refuses a retrieval just below the similarity threshold", () => {
+    expect(shouldRefuse(chunks(0.59, 0.55), strict)).toBe(true);
+    expect(shouldRefuse(chunks(0.6, 0.55), strict)).toBe(false);
+  });
+
+  it("scores a well-grounded answer from retrieval and citation coverage", () => {
+    const answer = [
+      "## Notice",
+      "An employer must give at least one month of notice before ending an employment contract [1].",
+      "Longer notice applies once the employee has worked for the same employer for two years [2].",
+      "Thanks!",
+    ].join("\n\n");
+
+    expect(shouldRefuse(chunks(0.9, 0.8, 0.7, 0.2), strict)).toBe(false);
+    expect(scoreGrounding(answer, chunks(0.9, 0.8, 0.7, 0.2), strict)).toEqual({
+      score: 0.9,
+      retrieval: 0.8,
+      coverage: 1,
+      covered: true,
+    });
+  });
+
+  it("does not count citations of sources that were not retrieved", () => {
+    const answer = "An employer must give at least one month of notice before ending an employment contract [7].";
+
+    expect(scoreGrounding(answer, chunks(0.8), strict).coverage).toBe(0);
+  });
+});
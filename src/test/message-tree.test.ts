@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { getBranch, getSiblings, revealMessage } from "@/lib/message-tree";
+
+// q1 -> a1 -> q2 -> a2, with a2b regenerated for q2 and q1b an edit of q1
+const messages = [
+  { id: "q1", parent_id: null, created_at: "2026-01-01T00:00:00Z" },
+  { id: "a1", parent_id: "q1", created_at: "2026-01-01T00:00:01Z" },
+  { id: "q2", parent_id: "a1", created_at: "2026-01-01T00:00:02Z" },
+  { id: "a2", parent_id: "q2", created_at: "2026-01-01T00:00:03Z" },
+  { id: "q1b", parent_id: null, created_at: "2026-01-01T00:00:04Z" },
+  { id: "a2b", parent_id: "q2", created_at: "2026-01-01T00:00:05Z" },
+];
+
+describe("message tree", () => {
+  it("follows parents from the leaf to the root", () => {
+    expect(getBranch(messages, "a2").map((m) => m.id)).toEqual(["q1", "a1", "q2", "a2"]);
+    expect(getBranch(messages, null)).toEqual([]);
+  });
+
+  it("lists the versions of a turn oldest first", () => {
+    expect(getSiblings(messages, messages[3]).map((m) => m.id)).toEqual(["a2", "a2b"]);
+    expect(getSiblings(messages, messages[0]).map((m) => m.id)).toEqual(["q1", "q1b"]);
+  });
+
+  it("keeps the current branch when it already shows the message", () => {
+    expect(revealMessage(messages, "a2", "a1")).toBe("a2");
+    expect(revealMessage(messages, "q1b", "a1")).toBe("a2b");
+  });
+});
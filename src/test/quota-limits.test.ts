@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { exceededLimit, UsageStatus } from "../../supabase/functions/legal-chat/quota-limits.ts";
+
+describe("quota limits", () => {
+  const status = (overrides: Partial<UsageStatus>): UsageStatus => ({
+    messages_today: 0,
+    tokens_today: 0,
+    messages_this_month: 0,
+    tokens_this_month: 0,
+    daily_messages: null,
+    monthly_messages: null,
+    daily_tokens: null,
+    monthly_tokens: null,
+    day_resets_at: "2026-10-20T00:00:00Z",
+    month_resets_at: "2026-11-01T00:00:00Z",
+    ...overrides,
+  });
+
+  it("lets users ask until a limit is reached, not just exceeded", () => {
+    expect(exceededLimit(status({ messages_today: 9, daily_messages: 10 }))).toBeNull();
+    expect(exceededLimit(status({ messages_today: 10, daily_messages: 10 }))?.limit).toBe("daily_messages");
+  });
+
+  it("treats null limits as unlimited and a zero limit as blocking", () => {
+    expect(exceededLimit(status({ messages_today: 10_000, tokens_this_month: 10_000_000 }))).toBeNull();
+    expect(exceededLimit(status({ monthly_tokens: 0 }))?.limit).toBe("monthly_tokens");
+  });
+
+  it("compares bigint counts that arrive as strings numerically", () => {
+    const counted = status({ tokens_today: "900" as unknown as number, daily_tokens: 1_000 });
+
+    expect(exceededLimit(counted)).toBeNull();
+    expect(exceededLimit({ ...counted, tokens_today: "1000" as unknown as number })?.limit).toBe("daily_tokens");
+  });
+
+  it("reports the limit that resets soonest first", () => {
+    const exceeded = exceededLimit(
+      status({ messages_this_month: 50, monthly_messages: 50, tokens_today: 500, daily_tokens: 500 })
+    );
+
+    expect(exceeded?.limit).toBe("daily_tokens");
+    expect(exceeded?.resets).toBe("day_resets_at");
+  });
+});
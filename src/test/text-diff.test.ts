@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, toSideBySide } from "@/lib/text-diff";
+
+describe("text diff", () => {
+  it("aligns unchanged lines and numbers both sides", () => {
+    const diff = diffLines("a\nb\nc\nd", "a\nc\nx\nd");
+
+    expect(diff.map((line) => `${line.op[0]}${line.text}`)).toEqual(["ea", "rb", "ec", "ax", "ed"]);
+    expect(diff[4]).toMatchObject({ oldNumber: 4, newNumber: 4 });
+    expect(diff[3]).toMatchObject({ oldNumber: null, newNumber: 3 });
+  });
+
+  it("pairs removed lines with the lines that replaced them", () => {
+    const rows = toSideBySide(diffLines("a\nold 1\nold 2\nz", "a\nnew\nz"));
+
+    expect(rows.map((row) => [row.left?.text ?? null, row.right?.text ?? null])).toEqual([
+      ["a", "a"],
+      ["old 1", "new"],
+      ["old 2", null],
+      ["z", "z"],
+    ]);
+  });
+});
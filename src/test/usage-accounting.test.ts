@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { accountUsage, costOf } from "../../supabase/functions/legal-chat/accounting.ts";
+
+describe("usage accounting", () => {
+  it("keeps the provider's token counts when it reports them", () => {
+    const reported = { prompt_tokens: 120, completion_tokens: 30 };
+
+    expect(accountUsage(reported, [{ content: "ignored" }], "ignored")).toEqual({
+      usage: reported,
+      estimated: false,
+    });
+  });
+
+  it("estimates tokens from the text when no usage chunk arrived", () => {
+    // 4 characters per token, rounded up, plus 4 tokens of overhead per prompt message
+    const prompt = [{ content: "x".repeat(40) }, { content: "y".repeat(9) }];
+
+    expect(accountUsage(null, prompt, "z".repeat(13))).toEqual({
+      usage: { prompt_tokens: 4 + 10 + 4 + 3, completion_tokens: 4 },
+      estimated: true,
+    });
+    expect(accountUsage(null, [], "").usage).toEqual({ prompt_tokens: 0, completion_tokens: 0 });
+  });
+
+  it("prices usage per million tokens, or not at all without pricing", () => {
+    const usage = { prompt_tokens: 1_500, completion_tokens: 500 };
+
+    expect(costOf({ pricing: { prompt: 3, completion: 15 } }, usage)).toBe(0.012);
+    expect(costOf({ pricing: null }, usage)).toBeNull();
+  });
+});
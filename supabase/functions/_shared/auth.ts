@@ -0,0 +1,67 @@
+import { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import { HttpError } from "./http.ts";
+
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.get("Authorization");
+  if (!header?.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+export function isServiceRoleRequest(req: Request): boolean {
+  return getBearerToken(req) === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+}
+
+// Resolves the caller from their session JWT; anonymous or expired tokens are rejected with 401.
+export async function requireUser(req: Request, supabase: SupabaseClient): Promise<User> {
+  const token = getBearerToken(req);
+  if (!token) {
+    throw new HttpError(401, "Authentication required");
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new HttpError(401, "Invalid or expired session");
+  }
+
+  return user;
+}
+
+export async function requireRole(
+  supabase: SupabaseClient,
+  user: User,
+  roles: string[]
+): Promise<string> {
+  const { data: role } = await supabase.rpc("get_user_role", { _user_id: user.id });
+  if (!role || !roles.includes(role)) {
+    throw new HttpError(403, "You do not have permission to perform this action");
+  }
+  return role;
+}
+
+export async function requireConversationOwner(
+  supabase: SupabaseClient,
+  user: User,
+  conversationId: unknown
+) {
+  if (typeof conversationId !== "string" || !conversationId) {
+    throw new HttpError(400, "conversationId is required");
+  }
+
+  const { data: conversation, error } = await supabase
+    .from("conversations")
+    .select("id, user_id, current_message_id")
+    .eq("id", conversationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!conversation) {
+    throw new HttpError(404, "Conversation not found");
+  }
+  if (conversation.user_id !== user.id) {
+    throw new HttpError(403, "You do not have access to this conversation");
+  }
+
+  return conversation as { id: string; user_id: string; current_message_id: string | null };
+}
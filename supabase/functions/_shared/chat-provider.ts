@@ -0,0 +1,135 @@
+import { HttpError } from "./http.ts";
+
+// Any endpoint speaking the OpenAI chat completions API. AI_PROVIDER picks one of the presets
+// below; AI_CHAT_URL, AI_CHAT_MODEL, AI_API_KEY, AI_TEMPERATURE, AI_MAX_TOKENS and AI_TIMEOUT_MS
+// override its settings, and AI_PROMPT_PRICE / AI_COMPLETION_PRICE (USD per million tokens)
+// enable cost accounting.
+export interface ChatProvider {
+  name: string;
+  url: string;
+  // Null for local servers that don't check one
+  apiKey: string | null;
+  model: string;
+  // Null leaves the server's default
+  temperature: number | null;
+  maxTokens: number | null;
+  // How long to wait for the response to start; streamed bodies may take longer
+  timeoutMs: number;
+  // USD per million tokens; null when the deployment doesn't track cost
+  pricing: { prompt: number; completion: number } | null;
+}
+
+interface ProviderPreset {
+  url: string;
+  model: string;
+  // Environment variable holding the key, unless AI_API_KEY is set
+  apiKeyEnv: string | null;
+  timeoutMs: number;
+}
+
+const PROVIDER_PRESETS: Record<string, ProviderPreset> = {
+  lovable: {
+    url: "https://ai.gateway.lovable.dev/v1/chat/completions",
+    model: "google/gemini-3-flash-preview",
+    apiKeyEnv: "LOVABLE_API_KEY",
+    timeoutMs: 60_000,
+  },
+  openai: {
+    url: "https://api.openai.com/v1/chat/completions",
+    model: "gpt-4o-mini",
+    apiKeyEnv: "OPENAI_API_KEY",
+    timeoutMs: 60_000,
+  },
+  // Local servers load the model on first use, so they get longer to respond.
+  ollama: {
+    url: "http://host.docker.internal:11434/v1/chat/completions",
+    model: "llama3.1",
+    apiKeyEnv: null,
+    timeoutMs: 180_000,
+  },
+  llamacpp: {
+    url: "http://host.docker.internal:8080/v1/chat/completions",
+    model: "default",
+    apiKeyEnv: null,
+    timeoutMs: 180_000,
+  },
+};
+
+function numberFromEnv(name: string): number | null {
+  const value = Deno.env.get(name);
+  if (!value) return null;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function getChatProvider(): ChatProvider {
+  const name = Deno.env.get("AI_PROVIDER") ?? "lovable";
+  const preset = PROVIDER_PRESETS[name];
+
+  if (!preset) {
+    throw new Error(
+      `Unknown AI_PROVIDER "${name}", expected one of: ${Object.keys(PROVIDER_PRESETS).join(", ")}`
+    );
+  }
+
+  const apiKey =
+    Deno.env.get("AI_API_KEY") ?? (preset.apiKeyEnv ? Deno.env.get(preset.apiKeyEnv) : null) ?? null;
+
+  if (!apiKey && preset.apiKeyEnv) {
+    throw new Error(`${preset.apiKeyEnv} is not configured`);
+  }
+
+  const promptPrice = numberFromEnv("AI_PROMPT_PRICE");
+  const completionPrice = numberFromEnv("AI_COMPLETION_PRICE");
+
+  return {
+    name,
+    url: Deno.env.get("AI_CHAT_URL") ?? preset.url,
+    apiKey,
+    model: Deno.env.get("AI_CHAT_MODEL") ?? preset.model,
+    temperature: numberFromEnv("AI_TEMPERATURE"),
+    maxTokens: numberFromEnv("AI_MAX_TOKENS"),
+    timeoutMs: numberFromEnv("AI_TIMEOUT_MS") ?? preset.timeoutMs,
+    pricing: promptPrice !== null || completionPrice !== null
+      ? { prompt: promptPrice ?? 0, completion: completionPrice ?? 0 }
+      : null,
+  };
+}
+
+// Sends a chat completion request with the provider's model and sampling settings. Resolves
+// once the response starts, whatever its status; throws a 504 HttpError if it doesn't in time.
+export async function requestChatCompletion(
+  provider: ChatProvider,
+  body: Record<string, unknown>
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), provider.timeoutMs);
+
+  try {
+    return await fetch(provider.url, {
+      method: "POST",
+      headers: {
+        ...(provider.apiKey ? { Authorization: `Bearer ${provider.apiKey}` } : {}),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: provider.model,
+        ...(provider.temperature !== null ? { temperature: provider.temperature } : {}),
+        ...(provider.maxTokens !== null ? { max_tokens: provider.maxTokens } : {}),
+        ...body,
+      }),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new HttpError(504, `The ${provider.name} model did not respond in time`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,56 @@
+// A custom AI_EMBEDDINGS_URL (e.g. a local server) may not need a key.
+const CUSTOM_EMBEDDINGS_URL = Deno.env.get("AI_EMBEDDINGS_URL");
+const EMBEDDINGS_URL = CUSTOM_EMBEDDINGS_URL ?? "https://ai.gateway.lovable.dev/v1/embeddings";
+const EMBEDDING_MODEL = Deno.env.get("AI_EMBEDDING_MODEL") ?? "openai/text-embedding-3-small";
+
+// Must match the vector(1536) column on document_embeddings.
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const apiKey = Deno.env.get("AI_API_KEY") ?? Deno.env.get("LOVABLE_API_KEY");
+
+  if (!apiKey && !CUSTOM_EMBEDDINGS_URL) {
+    throw new Error("LOVABLE_API_KEY is not configured");
+  }
+
+  const response = await fetch(EMBEDDINGS_URL, {
+    method: "POST",
+    headers: {
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: EMBEDDING_MODEL,
+      input: texts,
+      dimensions: EMBEDDING_DIMENSIONS,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Embedding request failed (${response.status}): ${errorText}`);
+  }
+
+  const { data } = await response.json() as {
+    data: { index: number; embedding: number[] }[];
+  };
+
+  const embeddings = [...data]
+    .sort((a, b) => a.index - b.index)
+    .map((item) => item.embedding);
+
+  for (const embedding of embeddings) {
+    if (embedding.length !== EMBEDDING_DIMENSIONS) {
+      throw new Error(
+        `Embedding has ${embedding.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`
+      );
+    }
+  }
+
+  return embeddings;
+}
+
+export async function embedText(text: string): Promise<number[]> {
+  const [embedding] = await embedTexts([text]);
+  return embedding;
+}
@@ -0,0 +1,23 @@
+import { corsHeaders } from "./cors.ts";
+
+// Thrown from request handlers to short-circuit with a specific status and JSON error body.
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+export function errorResponse(error: unknown) {
+  if (error instanceof HttpError) {
+    return jsonResponse({ error: error.message }, error.status);
+  }
+  return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+}
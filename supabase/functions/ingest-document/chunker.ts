@@ -0,0 +1,146 @@
+const CHUNK_SIZE = 1500;
+const CHUNK_OVERLAP = 200;
+const MAX_HEADING_LENGTH = 120;
+
+// Lines that open a new structural unit: "Article 5", "Art. 12", "Section 3(a)", "§ 1983",
+// "Chapter IV", "Part 2", "Title VII", "Clause 4.1", "Schedule 1", "IV. Remedies" or all-caps headings.
+const UNIT_HEADING_PATTERN = /^(?:article|art\.|section|sec\.|chapter|part|title|clause|schedule|rule)\s+(\S+)/i;
+// The unit has to be numbered, so prose like "Part of the claim" or "Rule of law" is not a
+// heading; roman numerals are upper-case only, or "Part civil, part criminal" would be one.
+const UNIT_NUMBER_PATTERN = /^(?:\d|[IVXLC]+\b)/;
+const SECTION_SIGN_PATTERN = /^§+\s*\d/;
+const ROMAN_HEADING_PATTERN = /^[IVXLC]+\.\s+\S/;
+const ALL_CAPS_HEADING_PATTERN = /^[A-Z][A-Z0-9 ,.'&\-–:]{3,}$/;
+
+// Extracted PDF text separates pages with form feeds.
+const PAGE_BREAK = "\f";
+
+const BREAK_SEPARATORS = ["\n\n", "\n", ". ", "; ", ", ", " "];
+
+export interface ChunkMetadata {
+  heading: string | null;
+  char_start: number;
+  char_end: number;
+  // Null unless the text is paginated (extracted from a PDF)
+  page: number | null;
+  page_end: number | null;
+}
+
+export interface DocumentChunk {
+  chunk_index: number;
+  chunk_text: string;
+  metadata: ChunkMetadata;
+}
+
+interface Section {
+  heading: string | null;
+  start: number;
+  end: number;
+}
+
+function isNumberedUnit(text: string): boolean {
+  const unit = UNIT_HEADING_PATTERN.exec(text);
+  return (!!unit && UNIT_NUMBER_PATTERN.test(unit[1])) || SECTION_SIGN_PATTERN.test(text);
+}
+
+function isHeading(line: string): boolean {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > MAX_HEADING_LENGTH) return false;
+  return (
+    isNumberedUnit(trimmed) ||
+    ROMAN_HEADING_PATTERN.test(trimmed) ||
+    ALL_CAPS_HEADING_PATTERN.test(trimmed)
+  );
+}
+
+function findSections(text: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { heading: null, start: 0, end: text.length };
+  let offset = 0;
+
+  for (const line of text.split("\n")) {
+    if (isHeading(line)) {
+      if (text.slice(current.start, offset).trim()) {
+        sections.push({ ...current, end: offset });
+        current = { heading: line.trim(), start: offset, end: text.length };
+      } else {
+        current.heading = line.trim();
+      }
+    }
+    offset += line.length + 1;
+  }
+
+  sections.push({ ...current, end: text.length });
+  return sections.filter((section) => text.slice(section.start, section.end).trim());
+}
+
+// Latest natural break (paragraph, line, sentence, clause, word) inside [min, max].
+function findBreak(text: string, min: number, max: number): number {
+  for (const separator of BREAK_SEPARATORS) {
+    const index = text.lastIndexOf(separator, max - separator.length);
+    if (index >= min) return index + separator.length;
+  }
+  return max;
+}
+
+function splitSection(text: string, section: Section): [number, number][] {
+  const ranges: [number, number][] = [];
+  let start = section.start;
+
+  while (start < section.end) {
+    let end = Math.min(start + CHUNK_SIZE, section.end);
+    if (end < section.end) {
+      end = findBreak(text, start + CHUNK_SIZE / 2, end);
+    }
+    ranges.push([start, end]);
+    if (end >= section.end) break;
+
+    // Step back for overlap, then forward to the next word so chunks never start mid-word.
+    let next = Math.max(end - CHUNK_OVERLAP, start + 1);
+    const space = text.indexOf(" ", next);
+    if (space !== -1 && space < end) next = space + 1;
+    start = next;
+  }
+
+  return ranges;
+}
+
+function pageAt(pageBreaks: number[], offset: number): number {
+  return 1 + pageBreaks.filter((breakOffset) => breakOffset < offset).length;
+}
+
+// Splits a legal text into overlapping chunks that never cross an article/section boundary.
+export function chunkDocument(text: string): DocumentChunk[] {
+  const pageBreaks: number[] = [];
+  for (let i = text.indexOf(PAGE_BREAK); i !== -1; i = text.indexOf(PAGE_BREAK, i + 1)) {
+    pageBreaks.push(i);
+  }
+
+  const paginated = pageBreaks.length > 0;
+  const chunks: DocumentChunk[] = [];
+
+  for (const section of findSections(text)) {
+    for (const [rawStart, rawEnd] of splitSection(text, section)) {
+      const raw = text.slice(rawStart, rawEnd);
+      const chunkText = raw.trim();
+      if (!chunkText) continue;
+
+      const charStart = rawStart + (raw.length - raw.trimStart().length);
+      const charEnd = charStart + chunkText.length;
+
+      chunks.push({
+        chunk_index: chunks.length,
+        chunk_text: chunkText,
+        metadata: {
+          heading: section.heading,
+          char_start: charStart,
+          char_end: charEnd,
+          page: paginated ? pageAt(pageBreaks, charStart) : null,
+          page_end: paginated ? pageAt(pageBreaks, charEnd) : null,
+        },
+      });
+    }
+  }
+
+  return chunks;
+}
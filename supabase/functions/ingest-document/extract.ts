@@ -0,0 +1,121 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import mammoth from "https://esm.sh/mammoth@1.8.0";
+
+const STORAGE_BUCKET = "legal-documents";
+
+// Matches the chunker, which numbers pages by counting form feeds.
+const PAGE_BREAK = "\f";
+
+const BLOCK_TAGS =
+  /<\/?(?:p|div|br|li|ul|ol|tr|table|section|article|header|footer|blockquote|pre|h[1-6])\b[^>]*>/gi;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  sect: "§",
+  para: "¶",
+  ndash: "–",
+  mdash: "—",
+};
+
+export interface ExtractedText {
+  content: string;
+  // Only set for formats with fixed pages (PDF)
+  pageCount: number | null;
+}
+
+type FileFormat = "pdf" | "docx" | "html" | "text";
+
+function detectFormat(fileName: string, fileType: string | null): FileFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+
+  if (fileType === "application/pdf" || extension === "pdf") return "pdf";
+  if (fileType?.includes("wordprocessingml") || extension === "docx") return "docx";
+  if (fileType === "text/html" || extension === "html" || extension === "htm") return "html";
+  if (!fileType || fileType.startsWith("text/") || extension === "txt" || extension === "md") {
+    return "text";
+  }
+
+  throw new Error(`Unsupported file type: ${fileType ?? extension}`);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith("#")) {
+      const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// Keeps the block structure (headings, paragraphs, list items) as line breaks so the chunker
+// can still find article and section headings.
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|head|noscript)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(BLOCK_TAGS, "\n")
+    .replace(/<[^>]+>/g, "");
+
+  return normalizeText(decodeEntities(text));
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+async function extractPdf(data: Uint8Array): Promise<ExtractedText> {
+  const pdf = await getDocumentProxy(data);
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  const pages = (text as string[]).map(normalizeText);
+
+  if (!pages.some(Boolean)) {
+    throw new Error("The PDF has no text layer; scanned documents need OCR before upload");
+  }
+
+  return { content: pages.join(`\n${PAGE_BREAK}\n`), pageCount: totalPages };
+}
+
+async function extractDocx(data: Uint8Array): Promise<ExtractedText> {
+  const { value } = await mammoth.extractRawText({ arrayBuffer: data.buffer });
+  return { content: normalizeText(value), pageCount: null };
+}
+
+// Downloads an uploaded original from storage and extracts its plain text.
+export async function extractDocumentText(
+  supabase: SupabaseClient,
+  filePath: string,
+  fileName: string,
+  fileType: string | null
+): Promise<ExtractedText> {
+  const format = detectFormat(fileName, fileType);
+
+  const { data: blob, error } = await supabase.storage.from(STORAGE_BUCKET).download(filePath);
+  if (error || !blob) {
+    throw new Error(`Could not download ${fileName}: ${error?.message ?? "file not found"}`);
+  }
+
+  const data = new Uint8Array(await blob.arrayBuffer());
+
+  switch (format) {
+    case "pdf":
+      return await extractPdf(data);
+    case "docx":
+      return await extractDocx(data);
+    case "html":
+      return { content: htmlToText(new TextDecoder().decode(data)), pageCount: null };
+    case "text":
+      return { content: normalizeText(new TextDecoder().decode(data)), pageCount: null };
+  }
+}
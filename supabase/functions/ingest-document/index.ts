@@ -0,0 +1,144 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isServiceRoleRequest, requireRole, requireUser } from "../_shared/auth.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { embedTexts } from "../_shared/embeddings.ts";
+import { errorResponse, jsonResponse } from "../_shared/http.ts";
+import { chunkDocument } from "./chunker.ts";
+import { extractDocumentText } from "./extract.ts";
+
+const EMBEDDING_BATCH_SIZE = 64;
+const QUEUE_BATCH_SIZE = 5;
+
+interface QueuedDocument {
+  id: string;
+  title: string;
+  content: string | null;
+  file_path: string | null;
+  file_name: string | null;
+  file_type: string | null;
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function ingestDocument(supabase: SupabaseClient, document: QueuedDocument) {
+  await supabase
+    .from("legal_documents")
+    .update({ indexing_status: "indexing", indexing_error: null })
+    .eq("id", document.id);
+
+  try {
+    let content = document.content ?? "";
+
+    // Uploaded files arrive without content; extract it from the original first.
+    if (!content.trim() && document.file_path) {
+      const extracted = await extractDocumentText(
+        supabase,
+        document.file_path,
+        document.file_name ?? document.file_path,
+        document.file_type
+      );
+      content = extracted.content;
+
+      // Any validation given before the text existed covered nothing anyone had read.
+      const { error } = await supabase
+        .from("legal_documents")
+        .update({ content, page_count: extracted.pageCount, validated: false, validated_by: null })
+        .eq("id", document.id);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    }
+
+    const chunks = chunkDocument(content);
+
+    if (chunks.length === 0) {
+      throw new Error("Document has no content to index");
+    }
+
+    const embeddings: number[][] = [];
+    for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+      embeddings.push(
+        ...(await embedTexts(
+          batch.map((chunk) =>
+            [document.title, chunk.metadata.heading, chunk.chunk_text].filter(Boolean).join("\n")
+          )
+        ))
+      );
+    }
+
+    // Stale chunks are swapped out in a single transaction, and only if the content is unchanged.
+    const { data: replaced, error } = await supabase.rpc("replace_document_chunks", {
+      _document_id: document.id,
+      _content_hash: await sha256Hex(content),
+      _chunks: chunks.map((chunk, index) => ({ ...chunk, embedding: embeddings[index] })),
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return { id: document.id, status: replaced ? "indexed" : "queued", chunks: chunks.length };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Indexing failed for document ${document.id}:`, message);
+
+    await supabase
+      .from("legal_documents")
+      .update({ indexing_status: "failed", indexing_error: message })
+      .eq("id", document.id);
+
+    return { id: document.id, status: "failed", error: message };
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    // Callers are either a scheduled job using the service role or an admin/analyst session.
+    if (!isServiceRoleRequest(req)) {
+      const user = await requireUser(req, supabase);
+      await requireRole(supabase, user, ["admin", "legal_analyst"]);
+    }
+
+    const { documentId } = await req.json().catch(() => ({}));
+
+    // Without a documentId, drain the queue of documents waiting to be indexed.
+    const query = supabase.from("legal_documents").select("id, title, content, file_path, file_name, file_type");
+    const { data: documents, error } = documentId
+      ? await query.eq("id", documentId)
+      : await query
+          .eq("indexing_status", "queued")
+          .order("updated_at", { ascending: true })
+          .limit(QUEUE_BATCH_SIZE);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const results = [];
+    for (const document of (documents ?? []) as QueuedDocument[]) {
+      results.push(await ingestDocument(supabase, document));
+    }
+
+    return jsonResponse({ results });
+  } catch (error) {
+    console.error("Ingest document error:", error);
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,50 @@
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+// Matches ChatProvider.pricing: USD per million tokens
+interface Pricing {
+  prompt: number;
+  completion: number;
+}
+
+// Rough average for English prose; only used when the provider reports no usage.
+const CHARS_PER_TOKEN = 4;
+// Per-message overhead of the chat format (role markers and separators).
+const TOKENS_PER_MESSAGE = 4;
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// The provider's token counts, or an estimate from the prompt and answer text when it sent none
+// (e.g. local servers that ignore stream_options).
+export function accountUsage(
+  reported: TokenUsage | null,
+  prompt: { content: string }[],
+  answer: string
+): { usage: TokenUsage; estimated: boolean } {
+  if (reported) return { usage: reported, estimated: false };
+
+  return {
+    usage: {
+      prompt_tokens: prompt.reduce(
+        (sum, message) => sum + TOKENS_PER_MESSAGE + estimateTokens(message.content),
+        0
+      ),
+      completion_tokens: estimateTokens(answer),
+    },
+    estimated: true,
+  };
+}
+
+export function costOf(provider: { pricing: Pricing | null }, usage: TokenUsage): number | null {
+  if (!provider.pricing) return null;
+
+  const cost =
+    (usage.prompt_tokens * provider.pricing.prompt +
+      usage.completion_tokens * provider.pricing.completion) /
+    1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,83 @@
+export interface GroundingPolicy {
+  // A question counts as covered by the corpus when at least one chunk is this similar to it.
+  minSimilarity: number;
+  // "strict" answers uncovered questions with NOT_COVERED_ANSWER instead of asking the model;
+  // "lenient" lets the model answer from general knowledge (scored low).
+  mode: "strict" | "lenient";
+}
+
+// Only the similarity of a retrieved chunk matters here
+type ScoredChunk = { similarity: number };
+
+// Paragraphs shorter than this (headings, sign-offs) don't need a citation.
+const MIN_CLAIM_LENGTH = 80;
+
+// Stored in messages.grounding and sent to the client as the `grounding` event.
+export interface Grounding {
+  // 0..1 blend of retrieval and coverage
+  score: number;
+  // Mean similarity of the best retrieved chunks
+  retrieval: number;
+  // Share of substantive paragraphs citing a retrieved source
+  coverage: number;
+  // False when no validated document cleared the similarity threshold
+  covered: boolean;
+}
+
+export const NOT_COVERED_ANSWER = `**This question is not covered by LexAdvisor's verified legal corpus.**
+
+None of the validated documents available to me are close enough to your question to support a reliable answer, so I won't answer from general knowledge.
+
+You can try:
+- Rephrasing the question with the specific statute, case or legal concept you have in mind
+- Widening the conversation scope (jurisdiction, areas of law or years), if one is set
+- Asking a legal analyst to add relevant documents to the corpus
+
+For advice on your situation, please consult a qualified attorney.`;
+
+export function isCovered(chunks: ScoredChunk[], policy: GroundingPolicy): boolean {
+  return chunks.some((chunk) => chunk.similarity >= policy.minSimilarity);
+}
+
+// Whether to skip the model and reply with NOT_COVERED_ANSWER.
+export function shouldRefuse(chunks: ScoredChunk[], policy: GroundingPolicy): boolean {
+  return policy.mode === "strict" && !isCovered(chunks, policy);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function scoreGrounding(
+  answer: string,
+  chunks: ScoredChunk[],
+  policy: GroundingPolicy
+): Grounding {
+  const top = chunks.slice(0, 3);
+  const retrieval = top.length
+    ? top.reduce((sum, chunk) => sum + chunk.similarity, 0) / top.length
+    : 0;
+
+  const claims = answer
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length >= MIN_CLAIM_LENGTH && !paragraph.startsWith("#"));
+  const cited = claims.filter((paragraph) =>
+    [...paragraph.matchAll(/\[(\d+)\]/g)].some((match) => {
+      const index = Number(match[1]);
+      return index >= 1 && index <= chunks.length;
+    })
+  );
+  const coverage = claims.length ? cited.length / claims.length : 0;
+
+  return {
+    score: round(0.5 * retrieval + 0.5 * coverage),
+    retrieval: round(retrieval),
+    coverage: round(coverage),
+    covered: isCovered(chunks, policy),
+  };
+}
+
+// A one-chunk completion stream in the gateway's format, so canned answers take the same path.
+export function cannedCompletion(content: string): ReadableStream<Uint8Array> {
+  const body = `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\ndata: [DONE]\n\n`;
+  return new Response(body).body!;
+}
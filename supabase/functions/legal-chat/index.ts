@@ -1,29 +1,88 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireConversationOwner, requireUser } from "../_shared/auth.ts";
+import { ChatProvider, getChatProvider, requestChatCompletion } from "../_shared/chat-provider.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { embedText } from "../_shared/embeddings.ts";
+import { errorResponse, HttpError } from "../_shared/http.ts";
+import { accountUsage, costOf } from "./accounting.ts";
+import {
+  cannedCompletion,
+  GroundingPolicy,
+  NOT_COVERED_ANSWER,
+  scoreGrounding,
+  shouldRefuse,
+} from "./grounding.ts";
+import {
+  buildSummaryPrompt,
+  compressHistory,
+  loadMemory,
+  needsRefresh,
+  refreshMemory,
+} from "./memory.ts";
+import {
+  getMessage,
+  indexMessagesForSearch,
+  loadBranch,
+  saveAssistantMessage,
+  saveUserMessage,
+  setCurrentMessage,
+  StoredMessage,
+} from "./persistence.ts";
+import { buildSystemPrompt, promptDomain } from "./prompts.ts";
+import { checkQuota, recordUsage } from "./quota.ts";
+import { relayCompletion, runInBackground, sseEvent } from "./relay.ts";
+import { buildContextPrompt, retrieveChunks, RetrievedChunk, toSources } from "./retrieval.ts";
+import { buildScopePrompt, loadScope } from "./scope.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+const GROUNDING_POLICY: GroundingPolicy = {
+  minSimilarity: Number(Deno.env.get("GROUNDING_MIN_SIMILARITY") ?? "0.6"),
+  mode: Deno.env.get("GROUNDING_MODE") === "lenient" ? "lenient" : "strict",
 };
 
-const SYSTEM_PROMPT = `You are LexAdvisor, an AI-powered legal information assistant. Your role is to provide helpful, accurate legal guidance based on legal documents and principles.
+// Starts a streamed completion, or returns the error response to send back to the client.
+async function requestCompletion(
+  provider: ChatProvider,
+  messages: { role: string; content: string }[]
+): Promise<ReadableStream<Uint8Array> | Response> {
+  const response = await requestChatCompletion(provider, {
+    messages,
+    stream: true,
+    stream_options: { include_usage: true },
+  });
 
-IMPORTANT GUIDELINES:
-1. You are NOT a lawyer and do not provide legal advice. You provide legal INFORMATION and guidance.
-2. Always recommend consulting with a qualified attorney for specific legal matters.
-3. Base your responses on established legal principles and documented case law when possible.
-4. Be clear about jurisdictional limitations - laws vary by location.
-5. If you don't have enough information to answer confidently, say so.
-6. Present information in a clear, organized manner.
-7. When discussing legal concepts, provide definitions and context.
-8. Cite relevant laws, statutes, or legal principles when applicable.
-
-RESPONSE FORMAT:
-- Start with a brief summary of the key point
-- Provide detailed explanation with legal context
-- Include relevant considerations or exceptions
-- End with a recommendation to seek professional legal counsel if needed
+  if (!response.ok) {
+    if (response.status === 429) {
+      return new Response(
+        JSON.stringify({ error: "Rate limits exceeded, please try again later." }),
+        {
+          status: 429,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+    if (response.status === 402) {
+      return new Response(
+        JSON.stringify({ error: "Payment required, please add credits to your workspace." }),
+        {
+          status: 402,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+    const errorText = await response.text();
+    console.error(`AI provider error (${provider.name}):`, response.status, errorText);
+    return new Response(
+      JSON.stringify({ error: "AI provider error" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
 
-Remember: Your goal is to educate and inform, not to replace professional legal advice.`;
+  return response.body!;
+}
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -31,70 +90,183 @@ serve(async (req) => {
   }
 
   try {
-    const { messages } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
 
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    const user = await requireUser(req, supabase);
+    // Messages form a tree. A new question continues `parentId` (default: the conversation's
+    // current branch). `regenerate` adds a sibling answer to `messageId` (or the current
+    // question); `editMessageId` adds `content` as a sibling of that question.
+    const { content, conversationId, parentId, regenerate, messageId, editMessageId } =
+      await req.json();
+    const conversation = await requireConversationOwner(supabase, user, conversationId);
+
+    if (!regenerate && (typeof content !== "string" || !content.trim())) {
+      throw new HttpError(400, "content is required");
     }
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          ...messages,
-        ],
-        stream: true,
-      }),
-    });
+    const provider = getChatProvider();
+    const overQuota = await checkQuota(supabase, user.id);
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limits exceeded, please try again later." }),
-          {
-            status: 429,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          }
-        );
+    if (overQuota) {
+      return overQuota;
+    }
+
+    let userMessage: StoredMessage;
+
+    if (regenerate) {
+      const target = await getMessage(
+        supabase,
+        conversationId,
+        messageId ?? conversation.current_message_id
+      );
+      userMessage =
+        target.role === "user" ? target : await getMessage(supabase, conversationId, target.parent_id);
+    } else {
+      // Every parent is looked up within this conversation: current_message_id is owner-writable
+      // and the branch is then loaded with the service role.
+      let branchParentId: string | null;
+      if (editMessageId) {
+        const edited = await getMessage(supabase, conversationId, editMessageId);
+        if (edited.role !== "user") {
+          throw new HttpError(400, "Only questions can be edited");
+        }
+        branchParentId = edited.parent_id;
+      } else {
+        const parent = parentId ?? conversation.current_message_id;
+        branchParentId = parent ? (await getMessage(supabase, conversationId, parent)).id : null;
       }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Payment required, please add credits to your workspace." }),
+      const saved = await saveUserMessage(supabase, conversationId, content.trim(), branchParentId);
+      userMessage = { ...saved, role: "user", content: content.trim() };
+    }
+
+    const question = userMessage.content;
+    await setCurrentMessage(supabase, conversationId, userMessage.id);
+    const [branch, memory, scope] = await Promise.all([
+      loadBranch(supabase, userMessage.id),
+      loadMemory(supabase, conversationId),
+      loadScope(supabase, conversationId),
+    ]);
+    const { history, summary } = compressHistory(branch, memory);
+    let chunks: RetrievedChunk[] = [];
+    let questionEmbedding: number[] | null = null;
+    let retrieved = false;
+
+    try {
+      questionEmbedding = await embedText(question);
+      chunks = await retrieveChunks(supabase, questionEmbedding, scope);
+      retrieved = true;
+    } catch (retrievalError) {
+      // Answer without grounding rather than failing the whole request.
+      console.error("Retrieval error:", retrievalError);
+    }
+
+    // Questions the verified corpus doesn't cover get a fixed answer instead of free-form
+    // generation; a retrieval outage still falls through to the model.
+    const notCovered = retrieved && shouldRefuse(chunks, GROUNDING_POLICY);
+    const prompt = notCovered
+      ? []
+      : [
           {
-            status: 402,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          }
-        );
-      }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      return new Response(
-        JSON.stringify({ error: "AI gateway error" }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+            role: "system",
+            content: [
+              await buildSystemPrompt(supabase, promptDomain(scope, chunks)),
+              buildScopePrompt(scope),
+              buildSummaryPrompt(summary),
+              buildContextPrompt(chunks),
+            ]
+              .filter(Boolean)
+              .join("\n\n"),
+          },
+          ...history,
+        ];
+    const startedAt = Date.now();
+    const completion = notCovered
+      ? cannedCompletion(NOT_COVERED_ANSWER)
+      : await requestCompletion(provider, prompt);
+
+    if (completion instanceof Response) {
+      return completion;
     }
 
-    return new Response(response.body, {
+    // The saved user turn, the id the answer will be stored under and the retrieved sources are
+    // emitted as distinct SSE events ahead of the model's token stream; the assistant turn is
+    // persisted here once the stream completes or is stopped, followed by a `grounding` event.
+    // The generated title and running summary are refreshed after the stream has closed; clients
+    // see the new title through realtime updates of the conversation.
+    const sources = notCovered ? [] : toSources(chunks);
+    const assistantMessageId = crypto.randomUUID();
+    const stream = relayCompletion(
+      completion,
+      [
+        sseEvent("user_message", {
+          id: userMessage.id,
+          parent_id: userMessage.parent_id,
+          created_at: userMessage.created_at,
+        }),
+        sseEvent("assistant_message", { id: assistantMessageId, parent_id: userMessage.id }),
+        sseEvent("sources", sources),
+      ],
+      async ({ content: answer, usage: reportedUsage, interrupted, firstTokenAt }) => {
+        if (!answer) return [];
+        const grounding = scoreGrounding(answer, notCovered ? [] : chunks, GROUNDING_POLICY);
+        // Canned answers cost nothing; model answers are counted even without a usage chunk.
+        const accounted = notCovered ? null : accountUsage(reportedUsage, prompt, answer);
+        const assistantMessage = await saveAssistantMessage(supabase, conversationId, {
+          id: assistantMessageId,
+          parentId: userMessage.id,
+          content: answer,
+          sources,
+          model: notCovered ? null : provider.model,
+          usage: accounted?.usage ?? null,
+          usageEstimated: accounted?.estimated ?? false,
+          latencyMs: notCovered ? null : Date.now() - startedAt,
+          firstTokenMs: notCovered || firstTokenAt === null ? null : firstTokenAt - startedAt,
+          costUsd: accounted ? costOf(provider, accounted.usage) : null,
+          interrupted,
+          grounding,
+        });
+
+        // The answer is already saved: failing to index it only costs semantic search, failing
+        // to record it lets one answer go uncounted, and a failed summary refresh only leaves a
+        // stale title.
+        const indexing = indexMessagesForSearch(supabase, [
+          { id: userMessage.id, content: question, embedding: questionEmbedding },
+          { id: assistantMessage.id, content: answer },
+        ]).catch((indexError) => console.error("Message indexing error:", indexError));
+        const recording = recordUsage(supabase, {
+          userId: user.id,
+          conversationId,
+          messageId: assistantMessage.id,
+          usage: accounted?.usage ?? null,
+        }).catch((usageError) => console.error("Usage recording error:", usageError));
+
+        const answeredBranch = [
+          ...branch,
+          { ...assistantMessage, role: "assistant" as const, content: answer },
+        ];
+
+        // A second model call: keep it from holding the client's stream open.
+        if (!interrupted && needsRefresh(answeredBranch, memory)) {
+          runInBackground(
+            refreshMemory(supabase, conversationId, answeredBranch, memory, provider).catch(
+              (summaryError) => console.error("Conversation summary error:", summaryError)
+            )
+          );
+        }
+
+        await Promise.all([indexing, recording]);
+        return [sseEvent("grounding", grounding)];
+      }
+    );
+
+    return new Response(stream, {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error) {
     console.error("Legal chat error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return errorResponse(error);
   }
 });
@@ -0,0 +1,160 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ChatProvider, requestChatCompletion } from "../_shared/chat-provider.ts";
+import { ChatTurn, StoredMessage } from "./persistence.ts";
+
+// Longest history sent verbatim; older turns are replaced by the running summary.
+const MAX_HISTORY_MESSAGES = 40;
+// Turns always sent verbatim, even when the summary already covers them.
+const MIN_RECENT_MESSAGES = 10;
+// How many new messages accumulate before the summary (and generated title) is refreshed.
+const SUMMARY_REFRESH_INTERVAL = 8;
+// Per-message cap on what the summarizer reads, so one long answer cannot crowd out the rest.
+const MAX_SUMMARIZED_MESSAGE_CHARS = 2000;
+
+const SUMMARY_PROMPT = `You maintain the title and summary of a conversation between a user and LexAdvisor, a legal information assistant.
+
+Respond with a JSON object with two fields:
+- "title": a concise title of at most 8 words describing the legal topic (no quotes, no trailing punctuation).
+- "summary": one paragraph (at most 120 words) recording the user's situation, jurisdiction, the questions asked and the key points of the answers, so the conversation can continue without the earlier messages.
+
+If a previous summary is given, update it with the new messages rather than starting over.`;
+
+export interface ConversationMemory {
+  auto_title: boolean;
+  summary: string | null;
+  summary_message_id: string | null;
+}
+
+export async function loadMemory(
+  supabase: SupabaseClient,
+  conversationId: string
+): Promise<ConversationMemory> {
+  const { data, error } = await supabase
+    .from("conversations")
+    .select("auto_title, summary, summary_message_id")
+    .eq("id", conversationId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load conversation summary: ${error.message}`);
+  }
+
+  return data as ConversationMemory;
+}
+
+// Index of the last message the summary covers, or -1 when it belongs to another branch.
+function summarizedThrough(branch: StoredMessage[], memory: ConversationMemory): number {
+  if (!memory.summary || !memory.summary_message_id) return -1;
+  return branch.findIndex((message) => message.id === memory.summary_message_id);
+}
+
+const toTurns = (messages: StoredMessage[]): ChatTurn[] =>
+  messages.map(({ role, content }) => ({ role, content }));
+
+// Fits the branch into the model context: short histories go verbatim; long ones drop the turns
+// the summary covers (keeping the most recent few) and return the summary to put in the prompt.
+export function compressHistory(
+  branch: StoredMessage[],
+  memory: ConversationMemory
+): { history: ChatTurn[]; summary: string | null } {
+  if (branch.length <= MAX_HISTORY_MESSAGES) {
+    return { history: toTurns(branch), summary: null };
+  }
+
+  const covered = summarizedThrough(branch, memory);
+  if (covered === -1) {
+    return { history: toTurns(branch.slice(-MAX_HISTORY_MESSAGES)), summary: null };
+  }
+
+  const start = Math.min(covered + 1, branch.length - MIN_RECENT_MESSAGES);
+  return {
+    history: toTurns(branch.slice(start).slice(-MAX_HISTORY_MESSAGES)),
+    summary: memory.summary,
+  };
+}
+
+export function buildSummaryPrompt(summary: string | null): string {
+  return summary ? `CONVERSATION SUMMARY (earlier messages not shown):\n${summary}` : "";
+}
+
+// Refresh after the first exchange on a branch, then every few messages.
+export function needsRefresh(branch: StoredMessage[], memory: ConversationMemory): boolean {
+  const covered = summarizedThrough(branch, memory);
+  return covered === -1 || branch.length - 1 - covered >= SUMMARY_REFRESH_INTERVAL;
+}
+
+function parseMeta(raw: string): { title: string; summary: string } | null {
+  try {
+    const parsed = JSON.parse(raw.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+    const title = typeof parsed.title === "string" ? parsed.title.trim() : "";
+    const summary = typeof parsed.summary === "string" ? parsed.summary.trim() : "";
+    return title && summary ? { title: title.slice(0, 100), summary } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Folds the messages since the last summary into a new summary and title, and stores them.
+// Nothing is stored when the model's output was unusable.
+export async function refreshMemory(
+  supabase: SupabaseClient,
+  conversationId: string,
+  branch: StoredMessage[],
+  memory: ConversationMemory,
+  provider: ChatProvider
+): Promise<void> {
+  const covered = summarizedThrough(branch, memory);
+  const previousSummary = covered === -1 ? null : memory.summary;
+  const pending = branch.slice(covered + 1).slice(-MAX_HISTORY_MESSAGES);
+
+  const transcript = pending
+    .map(({ role, content }) =>
+      `${role === "user" ? "User" : "Assistant"}: ${content.slice(0, MAX_SUMMARIZED_MESSAGE_CHARS)}`
+    )
+    .join("\n\n");
+
+  const response = await requestChatCompletion(provider, {
+    messages: [
+      { role: "system", content: SUMMARY_PROMPT },
+      {
+        role: "user",
+        content: `${previousSummary ? `PREVIOUS SUMMARY:\n${previousSummary}\n\n` : ""}NEW MESSAGES:\n${transcript}`,
+      },
+    ],
+    response_format: { type: "json_object" },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Summary request failed (${response.status}): ${await response.text()}`);
+  }
+
+  const completion = await response.json();
+  const meta = parseMeta(completion.choices?.[0]?.message?.content ?? "");
+  if (!meta) {
+    console.error("Unusable conversation summary:", completion.choices?.[0]?.message?.content);
+    return;
+  }
+
+  const { error } = await supabase
+    .from("conversations")
+    .update({ summary: meta.summary, summary_message_id: branch[branch.length - 1].id })
+    .eq("id", conversationId);
+
+  if (error) {
+    throw new Error(`Failed to save conversation summary: ${error.message}`);
+  }
+
+  // This runs after the answer has streamed, so the user may have renamed the conversation since
+  // `memory` was read; only replace a title that is still generated.
+  if (memory.auto_title) {
+    const { error: titleError } = await supabase
+      .from("conversations")
+      .update({ title: meta.title })
+      .eq("id", conversationId)
+      .eq("auto_title", true);
+
+    if (titleError) {
+      throw new Error(`Failed to save conversation title: ${titleError.message}`);
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { embedTexts } from "../_shared/embeddings.ts";
+import { HttpError } from "../_shared/http.ts";
+import { TokenUsage } from "./accounting.ts";
+import { Grounding } from "./grounding.ts";
+import { CitedSource } from "./retrieval.ts";
+
+// Roughly the embedding model's input limit; longer answers are embedded by their opening.
+const MAX_EMBEDDED_CHARS = 8000;
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface SavedMessage {
+  id: string;
+  parent_id: string | null;
+  created_at: string;
+}
+
+export interface StoredMessage extends SavedMessage, ChatTurn {}
+
+export async function getMessage(
+  supabase: SupabaseClient,
+  conversationId: string,
+  messageId: string | null
+): Promise<StoredMessage> {
+  const { data, error } = messageId
+    ? await supabase
+        .from("messages")
+        .select("id, parent_id, role, content, created_at")
+        .eq("id", messageId)
+        .eq("conversation_id", conversationId)
+        .maybeSingle()
+    : { data: null, error: null };
+
+  if (error) {
+    throw new Error(`Failed to load message: ${error.message}`);
+  }
+  if (!data) {
+    throw new HttpError(404, "Message not found in this conversation");
+  }
+
+  return data as StoredMessage;
+}
+
+export async function saveUserMessage(
+  supabase: SupabaseClient,
+  conversationId: string,
+  content: string,
+  parentId: string | null
+): Promise<SavedMessage> {
+  const { data, error } = await supabase
+    .from("messages")
+    .insert({ conversation_id: conversationId, role: "user", content, parent_id: parentId })
+    .select("id, parent_id, created_at")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save user message: ${error.message}`);
+  }
+
+  return data as SavedMessage;
+}
+
+// The stored branch is the source of truth; the client never supplies history.
+export async function loadBranch(
+  supabase: SupabaseClient,
+  leafId: string
+): Promise<StoredMessage[]> {
+  const { data, error } = await supabase.rpc("get_message_branch", { _leaf_id: leafId });
+
+  if (error) {
+    throw new Error(`Failed to load conversation history: ${error.message}`);
+  }
+
+  return ((data ?? []) as StoredMessage[]).filter(
+    (message) => message.role === "user" || message.role === "assistant"
+  );
+}
+
+// Embeddings back the semantic half of search-messages. Messages without a precomputed
+// embedding are embedded here in one request.
+export async function indexMessagesForSearch(
+  supabase: SupabaseClient,
+  messages: { id: string; content: string; embedding?: number[] | null }[]
+) {
+  const missing = messages.filter((message) => !message.embedding);
+  if (missing.length > 0) {
+    const embedded = await embedTexts(
+      missing.map((message) => message.content.slice(0, MAX_EMBEDDED_CHARS))
+    );
+    missing.forEach((message, index) => (message.embedding = embedded[index]));
+  }
+
+  const results = await Promise.all(
+    messages.map((message) =>
+      supabase
+        .from("messages")
+        .update({ embedding: JSON.stringify(message.embedding) })
+        .eq("id", message.id)
+    )
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) {
+    throw new Error(`Failed to save message embedding: ${failed.error.message}`);
+  }
+}
+
+// Points the conversation at the leaf of the branch being continued.
+export async function setCurrentMessage(
+  supabase: SupabaseClient,
+  conversationId: string,
+  messageId: string
+) {
+  const { error } = await supabase
+    .from("conversations")
+    .update({ current_message_id: messageId, updated_at: new Date().toISOString() })
+    .eq("id", conversationId);
+
+  if (error) {
+    throw new Error(`Failed to update conversation: ${error.message}`);
+  }
+}
+
+export async function saveAssistantMessage(
+  supabase: SupabaseClient,
+  conversationId: string,
+  message: {
+    id: string;
+    parentId: string;
+    content: string;
+    sources: CitedSource[];
+    // Null when the answer was not generated by a model
+    model: string | null;
+    usage: TokenUsage | null;
+    // Token counts estimated from the text because the provider reported none
+    usageEstimated: boolean;
+    latencyMs: number | null;
+    firstTokenMs: number | null;
+    costUsd: number | null;
+    interrupted: boolean;
+    grounding: Grounding;
+  }
+): Promise<SavedMessage> {
+  const { data, error } = await supabase
+    .from("messages")
+    .insert({
+      id: message.id,
+      conversation_id: conversationId,
+      parent_id: message.parentId,
+      role: "assistant",
+      content: message.content,
+      sources: message.sources.length > 0 ? message.sources : null,
+      model: message.model,
+      prompt_tokens: message.usage?.prompt_tokens ?? null,
+      completion_tokens: message.usage?.completion_tokens ?? null,
+      usage_estimated: message.usageEstimated,
+      latency_ms: message.latencyMs,
+      first_token_ms: message.firstTokenMs,
+      cost_usd: message.costUsd,
+      interrupted: message.interrupted,
+      grounding: message.grounding,
+    })
+    .select("id, parent_id, created_at")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save assistant message: ${error.message}`);
+  }
+
+  await setCurrentMessage(supabase, conversationId, data.id);
+
+  return data as SavedMessage;
+}
@@ -0,0 +1,87 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { RetrievedChunk } from "./retrieval.ts";
+import { ConversationScope } from "./scope.ts";
+
+// How long the active templates are reused before prompt_templates is read again.
+const PROMPT_CACHE_TTL_MS = Number(Deno.env.get("PROMPT_CACHE_TTL_MS") ?? "60000");
+
+// The system prompt is these templates, in order. The fallbacks are used until an admin publishes
+// a version, and whenever prompt_templates can't be read.
+const TEMPLATE_NAMES = ["system", "answer_format"] as const;
+
+const FALLBACK_TEMPLATES: Record<(typeof TEMPLATE_NAMES)[number], string> = {
+  system: `You are LexAdvisor, an AI-powered legal information assistant. Your role is to provide helpful, accurate legal guidance based on legal documents and principles.
+
+IMPORTANT GUIDELINES:
+1. You are NOT a lawyer and do not provide legal advice. You provide legal INFORMATION and guidance.
+2. Always recommend consulting with a qualified attorney for specific legal matters.
+3. Base your responses on established legal principles and documented case law when possible.
+4. Be clear about jurisdictional limitations - laws vary by location.
+5. If you don't have enough information to answer confidently, say so.
+6. Present information in a clear, organized manner.
+7. When discussing legal concepts, provide definitions and context.
+8. Cite relevant laws, statutes, or legal principles when applicable.
+9. Prefer the VERIFIED SOURCES provided below over general knowledge, and cite them by their bracketed number.`,
+  answer_format: `RESPONSE FORMAT:
+- Start with a brief summary of the key point
+- Provide detailed explanation with legal context
+- Include relevant considerations or exceptions
+- End with a recommendation to seek professional legal counsel if needed
+
+Remember: Your goal is to educate and inform, not to replace professional legal advice.`,
+};
+
+interface ActiveTemplate {
+  name: string;
+  domain: string | null;
+  content: string;
+}
+
+let cache: { templates: ActiveTemplate[]; loadedAt: number } | null = null;
+
+async function loadActiveTemplates(supabase: SupabaseClient): Promise<ActiveTemplate[]> {
+  if (cache && Date.now() - cache.loadedAt < PROMPT_CACHE_TTL_MS) {
+    return cache.templates;
+  }
+
+  const { data, error } = await supabase
+    .from("prompt_templates")
+    .select("name, domain, content")
+    .eq("is_active", true);
+
+  if (error) {
+    throw new Error(`Failed to load prompt templates: ${error.message}`);
+  }
+
+  cache = { templates: (data ?? []) as ActiveTemplate[], loadedAt: Date.now() };
+  return cache.templates;
+}
+
+// The area of law whose overrides apply: the conversation's, when it is scoped to exactly one,
+// otherwise that of the best-matching source.
+export function promptDomain(scope: ConversationScope, chunks: RetrievedChunk[]): string | null {
+  if (scope.domains.length === 1) return scope.domains[0];
+  return chunks[0]?.domain ?? null;
+}
+
+// The system prompt from the active templates, preferring `domain`'s overrides to the defaults.
+export async function buildSystemPrompt(
+  supabase: SupabaseClient,
+  domain: string | null
+): Promise<string> {
+  let templates: ActiveTemplate[] = [];
+
+  try {
+    templates = await loadActiveTemplates(supabase);
+  } catch (templateError) {
+    // A stale or built-in prompt is better than no answer.
+    console.error("Prompt template error:", templateError);
+    templates = cache?.templates ?? [];
+  }
+
+  return TEMPLATE_NAMES.map((name) => {
+    const override = domain && templates.find((t) => t.name === name && t.domain === domain);
+    const fallback = templates.find((t) => t.name === name && t.domain === null);
+    return (override || fallback)?.content ?? FALLBACK_TEMPLATES[name];
+  }).join("\n\n");
+}
@@ -0,0 +1,33 @@
+// A row of get_usage_status: the user's consumption in the current UTC day and month next to
+// their role's limits; a null limit means unlimited. Also used by the app's usage meter.
+export interface UsageStatus {
+  messages_today: number;
+  tokens_today: number;
+  messages_this_month: number;
+  tokens_this_month: number;
+  daily_messages: number | null;
+  monthly_messages: number | null;
+  daily_tokens: number | null;
+  monthly_tokens: number | null;
+  day_resets_at: string;
+  month_resets_at: string;
+}
+
+// Checked in this order, so the limit that resets soonest is reported first.
+const LIMITS = [
+  { limit: "daily_messages", used: "messages_today", resets: "day_resets_at", label: "Daily message" },
+  { limit: "daily_tokens", used: "tokens_today", resets: "day_resets_at", label: "Daily token" },
+  { limit: "monthly_messages", used: "messages_this_month", resets: "month_resets_at", label: "Monthly message" },
+  { limit: "monthly_tokens", used: "tokens_this_month", resets: "month_resets_at", label: "Monthly token" },
+] as const;
+
+export type UsageLimit = (typeof LIMITS)[number];
+
+// The first limit the user has reached, or null when they may ask. Usage counts arrive from
+// Postgres as numbers or bigint strings.
+export function exceededLimit(status: UsageStatus): UsageLimit | null {
+  const reached = LIMITS.find(
+    ({ limit, used }) => status[limit] !== null && Number(status[used]) >= status[limit]!
+  );
+  return reached ?? null;
+}
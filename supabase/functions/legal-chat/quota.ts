@@ -0,0 +1,63 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { TokenUsage } from "./accounting.ts";
+import { exceededLimit, UsageStatus } from "./quota-limits.ts";
+
+// Returns the 429 response to send when the user has used up any of their role's limits, or
+// null when they may ask. Token limits are checked before the answer, so the request that
+// crosses one still completes.
+export async function checkQuota(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Response | null> {
+  const { data, error } = await supabase
+    .rpc("get_usage_status", { _user_id: userId })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load usage: ${error.message}`);
+  }
+
+  const status = data as UsageStatus;
+  const exceeded = exceededLimit(status);
+  if (!exceeded) return null;
+
+  const resetAt = status[exceeded.resets];
+  const retryAfter = Math.max(1, Math.ceil((new Date(resetAt).getTime() - Date.now()) / 1000));
+
+  return new Response(
+    JSON.stringify({
+      error: `${exceeded.label} limit reached. Your allowance resets at ${new Date(resetAt).toUTCString()}.`,
+      code: "quota_exceeded",
+      limit: exceeded.limit,
+      allowed: status[exceeded.limit],
+      used: Number(status[exceeded.used]),
+      reset_at: resetAt,
+    }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+        "Retry-After": String(retryAfter),
+      },
+    }
+  );
+}
+
+export async function recordUsage(
+  supabase: SupabaseClient,
+  entry: { userId: string; conversationId: string; messageId: string; usage: TokenUsage | null }
+): Promise<void> {
+  const { error } = await supabase.from("usage_ledger").insert({
+    user_id: entry.userId,
+    conversation_id: entry.conversationId,
+    message_id: entry.messageId,
+    prompt_tokens: entry.usage?.prompt_tokens ?? 0,
+    completion_tokens: entry.usage?.completion_tokens ?? 0,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record usage: ${error.message}`);
+  }
+}
@@ -0,0 +1,112 @@
+import { TokenUsage } from "./accounting.ts";
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+export interface RelayResult {
+  content: string;
+  usage: TokenUsage | null;
+  // True when the client stopped the answer or the gateway stream broke off.
+  interrupted: boolean;
+  // When the first answer token arrived (ms since epoch), null if none did
+  firstTokenAt: number | null;
+}
+
+// Keeps the worker alive until `work` settles, even after the response has been handed off.
+export function runInBackground(work: Promise<unknown>): void {
+  if (typeof EdgeRuntime !== "undefined") EdgeRuntime.waitUntil(work);
+}
+
+export function sseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Forwards the gateway's SSE stream to the client while accumulating the answer. When the client
+// disconnects (e.g. its Stop button aborts the fetch) the gateway request is cancelled too, and
+// `onComplete` receives the partial answer flagged as interrupted. The events `onComplete` returns
+// are sent to the client (if still connected) before the stream closes.
+export function relayCompletion(
+  gatewayBody: ReadableStream<Uint8Array>,
+  leadingEvents: string[],
+  onComplete: (result: RelayResult) => Promise<string[]>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const reader = gatewayBody.getReader();
+  let clientConnected = true;
+  let controller: ReadableStreamDefaultController<Uint8Array>;
+
+  const send = (chunk: Uint8Array | string) => {
+    if (!clientConnected) return;
+    try {
+      controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk);
+    } catch {
+      clientConnected = false;
+    }
+  };
+
+  const pump = async () => {
+    const result: RelayResult = { content: "", usage: null, interrupted: false, firstTokenAt: null };
+    let buffer = "";
+
+    leadingEvents.forEach(send);
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        send(value);
+        buffer += decoder.decode(value, { stream: true });
+
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+          const line = buffer.slice(0, newlineIndex).trim();
+          buffer = buffer.slice(newlineIndex + 1);
+
+          if (!line.startsWith("data: ")) continue;
+          const jsonStr = line.slice(6).trim();
+          if (jsonStr === "[DONE]") continue;
+
+          try {
+            const parsed = JSON.parse(jsonStr);
+            const delta = parsed.choices?.[0]?.delta?.content ?? "";
+            if (delta && result.firstTokenAt === null) result.firstTokenAt = Date.now();
+            result.content += delta;
+            if (parsed.usage) {
+              result.usage = {
+                prompt_tokens: parsed.usage.prompt_tokens ?? 0,
+                completion_tokens: parsed.usage.completion_tokens ?? 0,
+              };
+            }
+          } catch {
+            console.error("Unparseable gateway chunk:", jsonStr);
+          }
+        }
+      }
+    } catch (streamError) {
+      console.error("Gateway stream interrupted:", streamError);
+      result.interrupted = true;
+    }
+
+    if (!clientConnected) result.interrupted = true;
+
+    try {
+      (await onComplete(result)).forEach(send);
+    } catch (completeError) {
+      console.error("Failed to finalize chat turn:", completeError);
+    }
+
+    if (clientConnected) controller.close();
+  };
+
+  return new ReadableStream({
+    start(streamController) {
+      controller = streamController;
+      runInBackground(pump());
+    },
+    cancel() {
+      clientConnected = false;
+      reader.cancel().catch(() => {});
+    },
+  });
+}
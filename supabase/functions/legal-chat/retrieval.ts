@@ -0,0 +1,103 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ConversationScope, scopeFilters } from "./scope.ts";
+
+const MATCH_COUNT = Number(Deno.env.get("RAG_MATCH_COUNT") ?? "6");
+const MATCH_THRESHOLD = Number(Deno.env.get("RAG_MATCH_THRESHOLD") ?? "0.5");
+const EXCERPT_LENGTH = 300;
+
+export interface RetrievedChunk {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  chunk_text: string;
+  metadata: Record<string, unknown> | null;
+  title: string;
+  domain: string;
+  jurisdiction: string | null;
+  year: number | null;
+  similarity: number;
+  // legal_document_versions.version the chunk was cut from
+  document_version: number | null;
+}
+
+// Shape of each entry in messages.sources; `index` is the [n] marker used in the answer.
+export interface CitedSource {
+  index: number;
+  document_id: string;
+  title: string;
+  domain: string;
+  jurisdiction: string | null;
+  chunk_index: number;
+  // Version of the document the cited wording comes from, so it can be shown after amendments
+  version: number | null;
+  // Page the passage starts on, for documents extracted from a PDF
+  page: number | null;
+  excerpt: string;
+  similarity: number;
+}
+
+function chunkPage(chunk: RetrievedChunk): number | null {
+  const page = chunk.metadata?.page;
+  return typeof page === "number" ? page : null;
+}
+
+// Returns the chunks from validated documents within the conversation's scope that are closest
+// to the embedded question.
+export async function retrieveChunks(
+  supabase: SupabaseClient,
+  embedding: number[],
+  scope: ConversationScope
+): Promise<RetrievedChunk[]> {
+  const { data, error } = await supabase.rpc("match_document_chunks", {
+    query_embedding: JSON.stringify(embedding),
+    match_count: MATCH_COUNT,
+    match_threshold: MATCH_THRESHOLD,
+    ...scopeFilters(scope),
+  });
+
+  if (error) {
+    throw new Error(`Similarity search failed: ${error.message}`);
+  }
+
+  return (data ?? []) as RetrievedChunk[];
+}
+
+export function buildContextPrompt(chunks: RetrievedChunk[]): string {
+  if (chunks.length === 0) {
+    return `VERIFIED SOURCES:
+No validated document in the LexAdvisor corpus matched this question. Say so explicitly, keep the answer general, and do not invent citations.`;
+  }
+
+  const sources = chunks
+    .map((chunk, index) => {
+      const page = chunkPage(chunk);
+      const details = [chunk.domain, chunk.jurisdiction, chunk.year, page && `p. ${page}`]
+        .filter(Boolean)
+        .join(", ");
+      return `[${index + 1}] ${chunk.title}${details ? ` (${details})` : ""}\n${chunk.chunk_text}`;
+    })
+    .join("\n\n");
+
+  return `VERIFIED SOURCES:
+The following excerpts come from validated legal documents. Ground your answer in them and cite them inline using their bracketed number, e.g. [1] or [2][3]. Only cite numbers listed below, and say so when the sources do not cover part of the question.
+
+${sources}`;
+}
+
+export function toSources(chunks: RetrievedChunk[]): CitedSource[] {
+  return chunks.map((chunk, index) => ({
+    index: index + 1,
+    document_id: chunk.document_id,
+    title: chunk.title,
+    domain: chunk.domain,
+    jurisdiction: chunk.jurisdiction,
+    chunk_index: chunk.chunk_index,
+    version: chunk.document_version,
+    page: chunkPage(chunk),
+    excerpt:
+      chunk.chunk_text.length > EXCERPT_LENGTH
+        ? `${chunk.chunk_text.slice(0, EXCERPT_LENGTH).trimEnd()}…`
+        : chunk.chunk_text,
+    similarity: Number(chunk.similarity.toFixed(4)),
+  }));
+}
@@ -0,0 +1,59 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// What the user limited the conversation to; empty fields mean "any".
+export interface ConversationScope {
+  jurisdiction: string | null;
+  domains: string[];
+  year_from: number | null;
+  year_to: number | null;
+}
+
+export async function loadScope(
+  supabase: SupabaseClient,
+  conversationId: string
+): Promise<ConversationScope> {
+  const { data, error } = await supabase
+    .from("conversations")
+    .select("jurisdiction, domains, year_from, year_to")
+    .eq("id", conversationId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load conversation scope: ${error.message}`);
+  }
+
+  return { ...data, domains: data.domains ?? [] } as ConversationScope;
+}
+
+// Arguments for match_document_chunks' optional filters.
+export function scopeFilters(scope: ConversationScope) {
+  return {
+    filter_jurisdiction: scope.jurisdiction,
+    filter_domains: scope.domains.length > 0 ? scope.domains : null,
+    filter_year_from: scope.year_from,
+    filter_year_to: scope.year_to,
+  };
+}
+
+function describeYears({ year_from, year_to }: ConversationScope): string | null {
+  if (year_from && year_to) return `${year_from}–${year_to}`;
+  if (year_from) return `${year_from} onwards`;
+  if (year_to) return `up to ${year_to}`;
+  return null;
+}
+
+export function buildScopePrompt(scope: ConversationScope): string {
+  const years = describeYears(scope);
+  const lines = [
+    scope.jurisdiction && `- Jurisdiction: ${scope.jurisdiction}`,
+    scope.domains.length > 0 &&
+      `- Areas of law: ${scope.domains.map((domain) => domain.replace(/_/g, " ")).join(", ")}`,
+    years && `- Laws, cases and documents from: ${years}`,
+  ].filter(Boolean);
+
+  if (lines.length === 0) return "";
+
+  return `CONVERSATION SCOPE (set by the user):
+${lines.join("\n")}
+Answer within this scope. If the question falls outside it, say so before answering, and state which jurisdiction's rules you are describing whenever they differ.`;
+}
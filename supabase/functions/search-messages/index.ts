@@ -0,0 +1,59 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireUser } from "../_shared/auth.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { embedText } from "../_shared/embeddings.ts";
+import { errorResponse, HttpError, jsonResponse } from "../_shared/http.ts";
+
+const MATCH_COUNT = 30;
+const MAX_QUERY_LENGTH = 500;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const user = await requireUser(req, supabase);
+    // `semantic` adds embedding similarity to the full-text match.
+    const { query, semantic } = await req.json().catch(() => ({}));
+
+    if (typeof query !== "string" || !query.trim()) {
+      throw new HttpError(400, "query is required");
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      throw new HttpError(400, `query must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    let queryEmbedding: number[] | null = null;
+    if (semantic) {
+      try {
+        queryEmbedding = await embedText(query.trim());
+      } catch (embeddingError) {
+        // Fall back to full-text results rather than failing the search.
+        console.error("Query embedding error:", embeddingError);
+      }
+    }
+
+    const { data, error } = await supabase.rpc("search_messages", {
+      _user_id: user.id,
+      _query: query.trim(),
+      _query_embedding: queryEmbedding ? JSON.stringify(queryEmbedding) : null,
+      _match_count: MATCH_COUNT,
+    });
+
+    if (error) {
+      throw new Error(`Message search failed: ${error.message}`);
+    }
+
+    return jsonResponse({ results: data ?? [], semantic: queryEmbedding !== null });
+  } catch (error) {
+    console.error("Search messages error:", error);
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireUser } from "../_shared/auth.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { errorResponse, HttpError, jsonResponse } from "../_shared/http.ts";
+
+interface Share {
+  id: string;
+  conversation_id: string;
+  message_id: string | null;
+  members_only: boolean;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// Resolves a share token to a read-only snapshot of the conversation. Anyone holding the token
+// may read it unless the link is members-only, expired or revoked.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { token } = await req.json().catch(() => ({}));
+    if (typeof token !== "string" || !token) {
+      throw new HttpError(400, "token is required");
+    }
+
+    const { data: share, error: shareError } = await supabase
+      .from("conversation_shares")
+      .select("id, conversation_id, message_id, members_only, expires_at, revoked_at, created_at")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (shareError) {
+      throw new Error(`Failed to load share: ${shareError.message}`);
+    }
+    if (!share) {
+      throw new HttpError(404, "This link does not exist");
+    }
+
+    const { members_only, expires_at, revoked_at } = share as Share;
+    if (revoked_at) {
+      throw new HttpError(410, "This link has been revoked");
+    }
+    if (expires_at && new Date(expires_at) <= new Date()) {
+      throw new HttpError(410, "This link has expired");
+    }
+    if (members_only) {
+      await requireUser(req, supabase);
+    }
+
+    const { data: conversation, error: conversationError } = await supabase
+      .from("conversations")
+      .select("title, current_message_id")
+      .eq("id", share.conversation_id)
+      .single();
+
+    if (conversationError) {
+      throw new Error(`Failed to load conversation: ${conversationError.message}`);
+    }
+
+    // The branch as it was when shared, or the current one if that message has since been deleted
+    const leafId = share.message_id ?? conversation.current_message_id;
+    const { data: branch, error: branchError } = leafId
+      ? await supabase.rpc("get_message_branch", { _leaf_id: leafId })
+      : { data: [], error: null };
+
+    if (branchError) {
+      throw new Error(`Failed to load messages: ${branchError.message}`);
+    }
+    // current_message_id is writable by the owner, so never trust it to stay in this conversation
+    const foreign = (branch ?? []).some(
+      (message: { conversation_id: string }) => message.conversation_id !== share.conversation_id
+    );
+    if (foreign) {
+      throw new HttpError(404, "This link does not exist");
+    }
+
+    await supabase.rpc("record_share_view", { _share_id: share.id });
+
+    return jsonResponse({
+      title: conversation.title,
+      shared_at: share.created_at,
+      expires_at,
+      messages: (branch ?? [])
+        .filter((message: { role: string }) => message.role === "user" || message.role === "assistant")
+        .map(({ id, role, content, sources, interrupted, grounding, created_at }: Record<string, unknown>) => ({
+          id,
+          role,
+          content,
+          sources,
+          interrupted,
+          grounding,
+          created_at,
+        })),
+    });
+  } catch (error) {
+    console.error("Shared conversation error:", error);
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,46 @@
+-- Index embeddings for cosine similarity search
+CREATE INDEX idx_document_embeddings_document_id ON public.document_embeddings(document_id);
+CREATE INDEX idx_document_embeddings_embedding ON public.document_embeddings
+    USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Similarity search over chunks of validated documents only
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+    query_embedding extensions.vector(1536),
+    match_count INTEGER DEFAULT 6,
+    match_threshold DOUBLE PRECISION DEFAULT 0.5
+)
+RETURNS TABLE (
+    id UUID,
+    document_id UUID,
+    chunk_index INTEGER,
+    chunk_text TEXT,
+    metadata JSONB,
+    title TEXT,
+    domain legal_domain,
+    jurisdiction TEXT,
+    year INTEGER,
+    similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    e.id,
+    e.document_id,
+    e.chunk_index,
+    e.chunk_text,
+    e.metadata,
+    d.title,
+    d.domain,
+    d.jurisdiction,
+    d.year,
+    1 - (e.embedding <=> query_embedding) AS similarity
+  FROM public.document_embeddings e
+  JOIN public.legal_documents d ON d.id = e.document_id
+  WHERE d.validated = true
+    AND e.embedding IS NOT NULL
+    AND 1 - (e.embedding <=> query_embedding) >= match_threshold
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count
+$$;
@@ -0,0 +1,66 @@
+-- Track indexing state of each document's embeddings
+ALTER TABLE public.legal_documents
+    ADD COLUMN indexing_status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (indexing_status IN ('queued', 'indexing', 'indexed', 'failed')),
+    ADD COLUMN indexing_error TEXT,
+    ADD COLUMN indexed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_legal_documents_indexing_status ON public.legal_documents(indexing_status);
+
+-- Re-queue a document whenever its content changes
+CREATE OR REPLACE FUNCTION public.queue_document_indexing()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.content IS DISTINCT FROM OLD.content THEN
+        NEW.indexing_status = 'queued';
+        NEW.indexing_error = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER queue_legal_documents_indexing
+    BEFORE INSERT OR UPDATE OF content ON public.legal_documents
+    FOR EACH ROW EXECUTE FUNCTION public.queue_document_indexing();
+
+-- Atomically swap a document's chunks, unless its content changed since it was chunked
+CREATE OR REPLACE FUNCTION public.replace_document_chunks(
+    _document_id UUID,
+    _content_hash TEXT,
+    _chunks JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+    PERFORM 1 FROM public.legal_documents
+    WHERE id = _document_id
+      AND encode(sha256(convert_to(coalesce(content, ''), 'UTF8')), 'hex') = _content_hash
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    DELETE FROM public.document_embeddings WHERE document_id = _document_id;
+
+    INSERT INTO public.document_embeddings (document_id, chunk_index, chunk_text, embedding, metadata)
+    SELECT
+        _document_id,
+        (chunk->>'chunk_index')::INTEGER,
+        chunk->>'chunk_text',
+        (chunk->>'embedding')::extensions.vector,
+        chunk->'metadata'
+    FROM jsonb_array_elements(_chunks) AS chunk;
+
+    UPDATE public.legal_documents
+    SET indexing_status = 'indexed', indexing_error = NULL, indexed_at = now()
+    WHERE id = _document_id;
+
+    RETURN true;
+END;
+$$;
+
+-- Only the ingestion function (service role) may rewrite embeddings this way
+REVOKE EXECUTE ON FUNCTION public.replace_document_chunks(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
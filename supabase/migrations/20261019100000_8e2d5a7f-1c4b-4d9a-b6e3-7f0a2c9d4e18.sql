@@ -0,0 +1,13 @@
+-- Expose display names of document uploaders and validators (admins and analysts only)
+CREATE OR REPLACE FUNCTION public.get_display_names(_user_ids UUID[])
+RETURNS TABLE (user_id UUID, full_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.user_id, p.full_name
+  FROM public.profiles p
+  WHERE p.user_id = ANY(_user_ids)
+    AND (public.has_role(p.user_id, 'admin') OR public.has_role(p.user_id, 'legal_analyst'))
+$$;
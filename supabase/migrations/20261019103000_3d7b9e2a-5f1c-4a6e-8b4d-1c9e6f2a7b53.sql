@@ -0,0 +1,5 @@
+-- Record which model produced each assistant message and its token usage
+ALTER TABLE public.messages
+    ADD COLUMN model TEXT,
+    ADD COLUMN prompt_tokens INTEGER,
+    ADD COLUMN completion_tokens INTEGER;
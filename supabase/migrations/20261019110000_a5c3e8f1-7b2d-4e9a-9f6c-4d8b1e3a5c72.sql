@@ -0,0 +1,3 @@
+-- Flag answers that were stopped by the user or cut off before the model finished
+ALTER TABLE public.messages
+    ADD COLUMN interrupted BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,47 @@
+-- Turn each conversation into a tree of messages so regenerated answers and edited questions
+-- become alternative branches instead of replacing history
+ALTER TABLE public.messages
+    ADD COLUMN parent_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_messages_parent_id ON public.messages(parent_id);
+
+-- Existing conversations are linear: each message's parent is the one before it
+UPDATE public.messages m
+SET parent_id = ordered.previous_id
+FROM (
+    SELECT id, LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at) AS previous_id
+    FROM public.messages
+) ordered
+WHERE m.id = ordered.id;
+
+-- Leaf of the branch currently selected in the UI; history sent to the model follows it
+ALTER TABLE public.conversations
+    ADD COLUMN current_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+UPDATE public.conversations c
+SET current_message_id = (
+    SELECT id FROM public.messages
+    WHERE conversation_id = c.id
+    ORDER BY created_at DESC
+    LIMIT 1
+);
+
+-- Messages from the root of the tree down to the given message
+CREATE OR REPLACE FUNCTION public.get_message_branch(_leaf_id UUID)
+RETURNS SETOF public.messages
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE branch AS (
+    SELECT id, parent_id, 0 AS depth FROM public.messages WHERE id = _leaf_id
+    UNION ALL
+    SELECT parent.id, parent.parent_id, branch.depth + 1
+    FROM public.messages parent
+    JOIN branch ON branch.parent_id = parent.id
+  )
+  SELECT m.*
+  FROM public.messages m
+  JOIN branch ON branch.id = m.id
+  ORDER BY branch.depth DESC
+$$;
@@ -0,0 +1,8 @@
+-- Let users pin conversations to the top of their list and archive ones they are done with.
+-- Both are plain flags on the owner's row, so the existing conversation policies cover them.
+ALTER TABLE public.conversations
+    ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN archived BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_conversations_user_list
+    ON public.conversations(user_id, archived, pinned DESC, updated_at DESC);
@@ -0,0 +1,7 @@
+-- Generated titles and a running summary of the conversation. The summary covers its branch
+-- up to summary_message_id and stands in for older turns once the history gets too long.
+-- auto_title is cleared when the user renames the conversation so their title is kept.
+ALTER TABLE public.conversations
+    ADD COLUMN auto_title BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN summary TEXT,
+    ADD COLUMN summary_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
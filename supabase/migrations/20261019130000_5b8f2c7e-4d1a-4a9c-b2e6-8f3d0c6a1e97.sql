@@ -0,0 +1,100 @@
+-- Search over a user's own messages: full-text via a generated tsvector, semantic via an
+-- embedding that legal-chat stores for each question and answer. Messages written before this
+-- migration have no embedding and are only found by full-text search.
+ALTER TABLE public.messages
+    ADD COLUMN search_vector tsvector
+        GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+    ADD COLUMN embedding extensions.vector(1536);
+
+CREATE INDEX idx_messages_search_vector ON public.messages USING gin (search_vector);
+
+-- Hits from both searches are merged with reciprocal rank fusion, so a message found by both
+-- ranks above one found by either alone. Called by the search-messages function on behalf of
+-- _user_id only; not exposed to clients directly.
+CREATE OR REPLACE FUNCTION public.search_messages(
+    _user_id UUID,
+    _query TEXT,
+    _query_embedding extensions.vector(1536) DEFAULT NULL,
+    _match_count INTEGER DEFAULT 30,
+    _match_threshold DOUBLE PRECISION DEFAULT 0.5
+)
+RETURNS TABLE (
+    message_id UUID,
+    conversation_id UUID,
+    conversation_title TEXT,
+    role TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    snippet TEXT,
+    rank DOUBLE PRECISION,
+    similarity DOUBLE PRECISION,
+    score DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', _query) AS q
+  ),
+  own_messages AS (
+    SELECT m.*
+    FROM public.messages m
+    JOIN public.conversations c ON c.id = m.conversation_id
+    WHERE c.user_id = _user_id
+  ),
+  text_hits AS (
+    SELECT
+      m.id,
+      ts_rank_cd(m.search_vector, query.q) AS rank,
+      row_number() OVER (ORDER BY ts_rank_cd(m.search_vector, query.q) DESC) AS position
+    FROM own_messages m, query
+    WHERE m.search_vector @@ query.q
+    ORDER BY rank DESC
+    LIMIT _match_count
+  ),
+  semantic_hits AS (
+    SELECT
+      m.id,
+      1 - (m.embedding <=> _query_embedding) AS similarity,
+      row_number() OVER (ORDER BY m.embedding <=> _query_embedding) AS position
+    FROM own_messages m
+    WHERE _query_embedding IS NOT NULL
+      AND m.embedding IS NOT NULL
+      AND 1 - (m.embedding <=> _query_embedding) >= _match_threshold
+    ORDER BY m.embedding <=> _query_embedding
+    LIMIT _match_count
+  ),
+  hits AS (
+    SELECT
+      COALESCE(t.id, s.id) AS id,
+      t.rank,
+      s.similarity,
+      COALESCE(1.0 / (60 + t.position), 0) + COALESCE(1.0 / (60 + s.position), 0) AS score
+    FROM text_hits t
+    FULL OUTER JOIN semantic_hits s ON s.id = t.id
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    c.title,
+    m.role,
+    m.created_at,
+    ts_headline(
+      'english',
+      m.content,
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=10, MaxFragments=2'
+    ),
+    h.rank,
+    h.similarity,
+    h.score
+  FROM hits h
+  JOIN public.messages m ON m.id = h.id
+  JOIN public.conversations c ON c.id = m.conversation_id
+  CROSS JOIN query
+  ORDER BY h.score DESC
+  LIMIT _match_count
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_messages(UUID, TEXT, extensions.vector, INTEGER, DOUBLE PRECISION)
+    FROM PUBLIC, anon, authenticated;
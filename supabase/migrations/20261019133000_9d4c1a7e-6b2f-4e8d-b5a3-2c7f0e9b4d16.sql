@@ -0,0 +1,62 @@
+-- Read-only links to a conversation. A share snapshots the branch ending at message_id; the
+-- shared-conversation function resolves the token, enforces expiry/revocation and counts views.
+-- Each deployment serves a single organisation, so "members only" means any signed-in user.
+CREATE TABLE public.conversation_shares (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+    message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+    token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+    created_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    members_only BOOLEAN NOT NULL DEFAULT false,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    view_count INTEGER NOT NULL DEFAULT 0,
+    last_viewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_conversation_shares_conversation_id ON public.conversation_shares(conversation_id);
+
+ALTER TABLE public.conversation_shares ENABLE ROW LEVEL SECURITY;
+
+-- Only the conversation owner manages its links; viewers never read this table directly
+CREATE POLICY "Users can view shares of their conversations" ON public.conversation_shares
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.conversations
+            WHERE conversations.id = conversation_shares.conversation_id
+            AND conversations.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can share their conversations" ON public.conversation_shares
+    FOR INSERT WITH CHECK (
+        created_by = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM public.conversations
+            WHERE conversations.id = conversation_shares.conversation_id
+            AND conversations.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can revoke shares of their conversations" ON public.conversation_shares
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM public.conversations
+            WHERE conversations.id = conversation_shares.conversation_id
+            AND conversations.user_id = auth.uid()
+        )
+    );
+
+-- Atomic view counter for the shared-conversation function
+CREATE OR REPLACE FUNCTION public.record_share_view(_share_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.conversation_shares
+  SET view_count = view_count + 1, last_viewed_at = now()
+  WHERE id = _share_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_share_view(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,65 @@
+-- Per-conversation scope: the jurisdiction, legal domains and year range the user cares about.
+-- legal-chat restricts retrieval to matching documents and states the scope in its prompt.
+ALTER TABLE public.conversations
+    ADD COLUMN jurisdiction TEXT,
+    ADD COLUMN domains legal_domain[] NOT NULL DEFAULT '{}',
+    ADD COLUMN year_from INTEGER,
+    ADD COLUMN year_to INTEGER,
+    ADD CONSTRAINT conversations_year_range_check
+        CHECK (year_from IS NULL OR year_to IS NULL OR year_from <= year_to);
+
+-- Replace rather than overload, so callers keep resolving to a single function.
+DROP FUNCTION public.match_document_chunks(extensions.vector, INTEGER, DOUBLE PRECISION);
+
+-- Similarity search over chunks of validated documents, optionally scoped. Documents without a
+-- jurisdiction are treated as applying everywhere; undated documents are left out once a year
+-- range is set.
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+    query_embedding extensions.vector(1536),
+    match_count INTEGER DEFAULT 6,
+    match_threshold DOUBLE PRECISION DEFAULT 0.5,
+    filter_jurisdiction TEXT DEFAULT NULL,
+    filter_domains legal_domain[] DEFAULT NULL,
+    filter_year_from INTEGER DEFAULT NULL,
+    filter_year_to INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    document_id UUID,
+    chunk_index INTEGER,
+    chunk_text TEXT,
+    metadata JSONB,
+    title TEXT,
+    domain legal_domain,
+    jurisdiction TEXT,
+    year INTEGER,
+    similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    e.id,
+    e.document_id,
+    e.chunk_index,
+    e.chunk_text,
+    e.metadata,
+    d.title,
+    d.domain,
+    d.jurisdiction,
+    d.year,
+    1 - (e.embedding <=> query_embedding) AS similarity
+  FROM public.document_embeddings e
+  JOIN public.legal_documents d ON d.id = e.document_id
+  WHERE d.validated = true
+    AND e.embedding IS NOT NULL
+    AND 1 - (e.embedding <=> query_embedding) >= match_threshold
+    AND (filter_jurisdiction IS NULL OR d.jurisdiction IS NULL
+         OR lower(d.jurisdiction) = lower(filter_jurisdiction))
+    AND (filter_domains IS NULL OR cardinality(filter_domains) = 0 OR d.domain = ANY(filter_domains))
+    AND (filter_year_from IS NULL OR d.year >= filter_year_from)
+    AND (filter_year_to IS NULL OR d.year <= filter_year_to)
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count
+$$;
@@ -0,0 +1,3 @@
+-- Grounding of each answer in the verified corpus: { score, retrieval, coverage, covered }
+ALTER TABLE public.messages
+    ADD COLUMN grounding JSONB;
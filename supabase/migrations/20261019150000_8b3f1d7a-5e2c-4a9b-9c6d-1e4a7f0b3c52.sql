@@ -0,0 +1,127 @@
+-- Admin-managed prompts for legal-chat. Every edit is a new version of a template (`name`, plus an
+-- optional `domain` override); exactly one version per template is active at a time.
+CREATE TABLE public.prompt_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (name IN ('system', 'answer_format')),
+    domain legal_domain,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL CHECK (length(trim(content)) > 0),
+    note TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT false,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_prompt_templates_version
+    ON public.prompt_templates(name, COALESCE(domain::text, ''), version);
+
+CREATE UNIQUE INDEX idx_prompt_templates_active
+    ON public.prompt_templates(name, COALESCE(domain::text, ''))
+    WHERE is_active;
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view prompt templates" ON public.prompt_templates
+    FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- Deactivating an override falls back to the default template; publishing and restoring versions
+-- go through the functions below.
+CREATE POLICY "Admins can deactivate prompt templates" ON public.prompt_templates
+    FOR UPDATE USING (public.has_role(auth.uid(), 'admin'))
+    WITH CHECK (is_active = false);
+
+-- Saves `_content` as the next version of the template (the default one when `_domain` is null)
+-- and makes it the active one
+CREATE OR REPLACE FUNCTION public.publish_prompt_template(
+    _name TEXT,
+    _content TEXT,
+    _domain legal_domain DEFAULT NULL,
+    _note TEXT DEFAULT NULL
+)
+RETURNS public.prompt_templates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    published public.prompt_templates;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can publish prompt templates';
+    END IF;
+
+    -- Serialises concurrent publishes of the same template
+    PERFORM pg_advisory_xact_lock(hashtext('prompt_templates:' || _name || ':' || COALESCE(_domain::text, '')));
+
+    UPDATE public.prompt_templates
+    SET is_active = false
+    WHERE name = _name AND domain IS NOT DISTINCT FROM _domain AND is_active;
+
+    INSERT INTO public.prompt_templates (name, domain, version, content, note, is_active, created_by)
+    SELECT _name, _domain, COALESCE(MAX(version), 0) + 1, _content, NULLIF(trim(_note), ''), true, auth.uid()
+    FROM public.prompt_templates
+    WHERE name = _name AND domain IS NOT DISTINCT FROM _domain
+    RETURNING * INTO published;
+
+    RETURN published;
+END;
+$$;
+
+-- Rolls a template back (or forward) to an existing version
+CREATE OR REPLACE FUNCTION public.activate_prompt_template(_id UUID)
+RETURNS public.prompt_templates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target public.prompt_templates;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can activate prompt templates';
+    END IF;
+
+    SELECT * INTO target FROM public.prompt_templates WHERE id = _id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Prompt template % not found', _id;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('prompt_templates:' || target.name || ':' || COALESCE(target.domain::text, '')));
+
+    UPDATE public.prompt_templates
+    SET is_active = false
+    WHERE name = target.name AND domain IS NOT DISTINCT FROM target.domain AND is_active;
+
+    UPDATE public.prompt_templates
+    SET is_active = true
+    WHERE id = _id
+    RETURNING * INTO target;
+
+    RETURN target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_prompt_template(TEXT, TEXT, legal_domain, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.activate_prompt_template(UUID) FROM PUBLIC, anon;
+
+-- The prompts legal-chat shipped with, as version 1 of the defaults
+INSERT INTO public.prompt_templates (name, domain, version, content, note, is_active) VALUES
+('system', NULL, 1, $prompt$You are LexAdvisor, an AI-powered legal information assistant. Your role is to provide helpful, accurate legal guidance based on legal documents and principles.
+
+IMPORTANT GUIDELINES:
+1. You are NOT a lawyer and do not provide legal advice. You provide legal INFORMATION and guidance.
+2. Always recommend consulting with a qualified attorney for specific legal matters.
+3. Base your responses on established legal principles and documented case law when possible.
+4. Be clear about jurisdictional limitations - laws vary by location.
+5. If you don't have enough information to answer confidently, say so.
+6. Present information in a clear, organized manner.
+7. When discussing legal concepts, provide definitions and context.
+8. Cite relevant laws, statutes, or legal principles when applicable.
+9. Prefer the VERIFIED SOURCES provided below over general knowledge, and cite them by their bracketed number.$prompt$, 'Initial version', true),
+('answer_format', NULL, 1, $prompt$RESPONSE FORMAT:
+- Start with a brief summary of the key point
+- Provide detailed explanation with legal context
+- Include relevant considerations or exceptions
+- End with a recommendation to seek professional legal counsel if needed
+
+Remember: Your goal is to educate and inform, not to replace professional legal advice.$prompt$, 'Initial version', true);
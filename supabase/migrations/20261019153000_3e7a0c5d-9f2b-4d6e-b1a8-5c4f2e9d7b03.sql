@@ -0,0 +1,103 @@
+-- Usage quotas per role, enforced by legal-chat against a ledger of answered requests. Periods are
+-- UTC calendar days and months; a NULL limit means unlimited.
+CREATE TABLE public.role_quotas (
+    role app_role PRIMARY KEY,
+    daily_messages INTEGER CHECK (daily_messages >= 0),
+    monthly_messages INTEGER CHECK (monthly_messages >= 0),
+    daily_tokens INTEGER CHECK (daily_tokens >= 0),
+    monthly_tokens INTEGER CHECK (monthly_tokens >= 0),
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.role_quotas (role, daily_messages, monthly_messages, daily_tokens, monthly_tokens) VALUES
+    ('user', 50, 1000, 200000, 4000000),
+    ('legal_analyst', 200, 4000, 800000, 16000000),
+    ('admin', NULL, NULL, NULL, NULL);
+
+ALTER TABLE public.role_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view quotas" ON public.role_quotas
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can update quotas" ON public.role_quotas
+    FOR UPDATE USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_role_quotas_updated_at
+    BEFORE UPDATE ON public.role_quotas
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per answer legal-chat produced; written with the service role only
+CREATE TABLE public.usage_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+    message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_usage_ledger_user_created ON public.usage_ledger(user_id, created_at);
+
+ALTER TABLE public.usage_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own usage" ON public.usage_ledger
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all usage" ON public.usage_ledger
+    FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- The user's usage in the current day and month next to their role's limits. Runs with the
+-- caller's rights, so users only ever see their own ledger.
+CREATE OR REPLACE FUNCTION public.get_usage_status(_user_id UUID)
+RETURNS TABLE (
+    role app_role,
+    messages_today BIGINT,
+    tokens_today BIGINT,
+    messages_this_month BIGINT,
+    tokens_this_month BIGINT,
+    daily_messages INTEGER,
+    monthly_messages INTEGER,
+    daily_tokens INTEGER,
+    monthly_tokens INTEGER,
+    day_resets_at TIMESTAMP WITH TIME ZONE,
+    month_resets_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH periods AS (
+        SELECT
+            date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS day_start,
+            date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS month_start
+    ),
+    usage AS (
+        SELECT
+            COUNT(l.id) FILTER (WHERE l.created_at >= p.day_start) AS messages_today,
+            COALESCE(SUM(l.prompt_tokens + l.completion_tokens) FILTER (WHERE l.created_at >= p.day_start), 0) AS tokens_today,
+            COUNT(l.id) AS messages_this_month,
+            COALESCE(SUM(l.prompt_tokens + l.completion_tokens), 0) AS tokens_this_month
+        FROM periods p
+        LEFT JOIN public.usage_ledger l
+            ON l.user_id = _user_id AND l.created_at >= p.month_start
+    )
+    SELECT
+        q.role,
+        u.messages_today,
+        u.tokens_today,
+        u.messages_this_month,
+        u.tokens_this_month,
+        q.daily_messages,
+        q.monthly_messages,
+        q.daily_tokens,
+        q.monthly_tokens,
+        p.day_start + INTERVAL '1 day',
+        p.month_start + INTERVAL '1 month'
+    FROM periods p
+    CROSS JOIN usage u
+    JOIN public.role_quotas q ON q.role = COALESCE(public.get_user_role(_user_id), 'user')
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_usage_status(UUID) FROM PUBLIC, anon;
@@ -0,0 +1,135 @@
+-- Accounting for each answer: whether its token counts were estimated (the provider sent no usage),
+-- how long it took and what it cost, plus admin rollups per day, user and conversation.
+ALTER TABLE public.messages
+    ADD COLUMN usage_estimated BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN latency_ms INTEGER,
+    ADD COLUMN first_token_ms INTEGER,
+    ADD COLUMN cost_usd NUMERIC(12, 6);
+
+CREATE INDEX idx_messages_assistant_created_at ON public.messages(created_at)
+    WHERE role = 'assistant';
+
+CREATE OR REPLACE FUNCTION public.get_usage_by_day(_from TIMESTAMP WITH TIME ZONE, _to TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+    day DATE,
+    messages BIGINT,
+    prompt_tokens BIGINT,
+    completion_tokens BIGINT,
+    estimated_messages BIGINT,
+    cost_usd NUMERIC,
+    avg_latency_ms NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can view usage rollups';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        (m.created_at AT TIME ZONE 'UTC')::date,
+        COUNT(*),
+        COALESCE(SUM(m.prompt_tokens), 0)::bigint,
+        COALESCE(SUM(m.completion_tokens), 0)::bigint,
+        COUNT(*) FILTER (WHERE m.usage_estimated),
+        SUM(m.cost_usd),
+        ROUND(AVG(m.latency_ms))
+    FROM public.messages m
+    WHERE m.role = 'assistant' AND m.created_at >= _from AND m.created_at < _to
+    GROUP BY 1
+    ORDER BY 1;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_usage_by_user(_from TIMESTAMP WITH TIME ZONE, _to TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+    user_id UUID,
+    full_name TEXT,
+    conversations BIGINT,
+    messages BIGINT,
+    prompt_tokens BIGINT,
+    completion_tokens BIGINT,
+    cost_usd NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can view usage rollups';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.user_id,
+        p.full_name,
+        COUNT(DISTINCT c.id),
+        COUNT(*),
+        COALESCE(SUM(m.prompt_tokens), 0)::bigint,
+        COALESCE(SUM(m.completion_tokens), 0)::bigint,
+        SUM(m.cost_usd)
+    FROM public.messages m
+    JOIN public.conversations c ON c.id = m.conversation_id
+    LEFT JOIN public.profiles p ON p.user_id = c.user_id
+    WHERE m.role = 'assistant' AND m.created_at >= _from AND m.created_at < _to
+    GROUP BY c.user_id, p.full_name
+    ORDER BY SUM(COALESCE(m.prompt_tokens, 0) + COALESCE(m.completion_tokens, 0)) DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_usage_by_conversation(
+    _from TIMESTAMP WITH TIME ZONE,
+    _to TIMESTAMP WITH TIME ZONE,
+    _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    conversation_id UUID,
+    title TEXT,
+    user_id UUID,
+    full_name TEXT,
+    messages BIGINT,
+    prompt_tokens BIGINT,
+    completion_tokens BIGINT,
+    cost_usd NUMERIC,
+    last_message_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can view usage rollups';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.id,
+        c.title,
+        c.user_id,
+        p.full_name,
+        COUNT(*),
+        COALESCE(SUM(m.prompt_tokens), 0)::bigint,
+        COALESCE(SUM(m.completion_tokens), 0)::bigint,
+        SUM(m.cost_usd),
+        MAX(m.created_at)
+    FROM public.messages m
+    JOIN public.conversations c ON c.id = m.conversation_id
+    LEFT JOIN public.profiles p ON p.user_id = c.user_id
+    WHERE m.role = 'assistant' AND m.created_at >= _from AND m.created_at < _to
+    GROUP BY c.id, c.title, c.user_id, p.full_name
+    ORDER BY SUM(COALESCE(m.prompt_tokens, 0) + COALESCE(m.completion_tokens, 0)) DESC
+    LIMIT _limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_usage_by_day(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_usage_by_user(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_usage_by_conversation(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon;
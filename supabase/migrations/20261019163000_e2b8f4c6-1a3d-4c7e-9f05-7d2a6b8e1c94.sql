@@ -0,0 +1,18 @@
+-- Original files behind uploaded documents. The file lives in the legal-documents bucket at
+-- file_path; ingest-document extracts its text into content, with PDF pages separated by form feeds.
+ALTER TABLE public.legal_documents
+    ADD COLUMN file_name TEXT,
+    ADD COLUMN file_type TEXT,
+    ADD COLUMN page_count INTEGER;
+
+-- Only the formats ingest-document can extract, up to 20 MB
+UPDATE storage.buckets
+SET file_size_limit = 20971520,
+    allowed_mime_types = ARRAY[
+        'application/pdf',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'text/html',
+        'text/plain',
+        'text/markdown'
+    ]
+WHERE id = 'legal-documents';
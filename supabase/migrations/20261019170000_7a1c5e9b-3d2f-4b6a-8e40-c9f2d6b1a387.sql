@@ -0,0 +1,51 @@
+-- Answers that cited a document, for its detail page. Conversations are private to their owner,
+-- so the lookup runs as definer and is limited to the roles that manage documents.
+CREATE INDEX idx_messages_sources ON public.messages USING GIN (sources jsonb_path_ops)
+    WHERE role = 'assistant';
+
+CREATE OR REPLACE FUNCTION public.get_document_citations(_document_id UUID, _limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+    message_id UUID,
+    conversation_id UUID,
+    conversation_title TEXT,
+    user_id UUID,
+    full_name TEXT,
+    answer TEXT,
+    citations JSONB,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'legal_analyst')) THEN
+        RAISE EXCEPTION 'Only admins and legal analysts can view document citations';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        m.id,
+        c.id,
+        c.title,
+        c.user_id,
+        p.full_name,
+        left(m.content, 500),
+        (
+            SELECT jsonb_agg(s ORDER BY (s->>'index')::int)
+            FROM jsonb_array_elements(m.sources) s
+            WHERE s->>'document_id' = _document_id::text
+        ),
+        m.created_at
+    FROM public.messages m
+    JOIN public.conversations c ON c.id = m.conversation_id
+    LEFT JOIN public.profiles p ON p.user_id = c.user_id
+    WHERE m.role = 'assistant'
+      AND m.sources @> jsonb_build_array(jsonb_build_object('document_id', _document_id::text))
+    ORDER BY m.created_at DESC
+    LIMIT _limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_document_citations(UUID, INTEGER) FROM PUBLIC, anon;
@@ -0,0 +1,76 @@
+-- Editing documents: changing reviewed content withdraws its validation, so the assistant (which
+-- only retrieves validated documents) never serves text nobody has checked. Edits made by a
+-- signed-in user are written to system_logs with the fields they changed.
+CREATE OR REPLACE FUNCTION public.reset_document_validation()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Text extracted from an uploaded file runs as the service role and is not an edit.
+    IF auth.uid() IS NOT NULL AND NEW.content IS DISTINCT FROM OLD.content THEN
+        NEW.validated = false;
+        NEW.validated_by = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reset_legal_documents_validation
+    BEFORE UPDATE OF content ON public.legal_documents
+    FOR EACH ROW EXECUTE FUNCTION public.reset_document_validation();
+
+CREATE OR REPLACE FUNCTION public.log_document_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _old JSONB := to_jsonb(OLD);
+    _new JSONB := to_jsonb(NEW);
+    _changes JSONB := '{}'::jsonb;
+    _field TEXT;
+BEGIN
+    -- Indexing and extraction run as the service role and are not user edits.
+    IF auth.uid() IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    FOREACH _field IN ARRAY ARRAY['title', 'description', 'domain', 'jurisdiction', 'year', 'tags', 'validated'] LOOP
+        IF _old -> _field IS DISTINCT FROM _new -> _field THEN
+            _changes = _changes || jsonb_build_object(
+                _field, jsonb_build_object('from', _old -> _field, 'to', _new -> _field)
+            );
+        END IF;
+    END LOOP;
+
+    -- Content can be long, so only its length before and after is logged.
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        _changes = _changes || jsonb_build_object(
+            'content', jsonb_build_object('from_length', length(OLD.content), 'to_length', length(NEW.content))
+        );
+    END IF;
+
+    IF _changes = '{}'::jsonb THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.system_logs (user_id, action, details)
+    VALUES (
+        auth.uid(),
+        CASE WHEN _changes - 'validated' = '{}'::jsonb AND NEW.validated THEN 'document_validate' ELSE 'document_update' END,
+        jsonb_build_object(
+            'document_id', NEW.id,
+            'title', NEW.title,
+            'changes', _changes,
+            'validation_reset', coalesce(OLD.validated, false) AND NOT coalesce(NEW.validated, false)
+        )
+    );
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_document_changes() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER log_legal_documents_changes
+    AFTER UPDATE ON public.legal_documents
+    FOR EACH ROW EXECUTE FUNCTION public.log_document_changes();
@@ -0,0 +1,237 @@
+-- Revisions of each legal document's content and metadata. Every insert or change to a versioned
+-- field stores a full snapshot; legal_documents.version is the current one and indexed_version the
+-- one its embeddings were cut from. Each chunk carries that version too, so legal-chat pins a
+-- citation to the wording it actually retrieved.
+CREATE TABLE public.legal_document_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID REFERENCES public.legal_documents(id) ON DELETE CASCADE NOT NULL,
+    version INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT,
+    content TEXT,
+    domain legal_domain NOT NULL,
+    jurisdiction TEXT,
+    year INTEGER,
+    tags TEXT[],
+    note TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (document_id, version)
+);
+
+ALTER TABLE public.legal_document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Visible to whoever can see the document itself
+CREATE POLICY "Users can view versions of documents they can see" ON public.legal_document_versions
+    FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.legal_documents d WHERE d.id = document_id));
+
+ALTER TABLE public.legal_documents
+    ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN indexed_version INTEGER;
+
+INSERT INTO public.legal_document_versions
+    (document_id, version, title, description, content, domain, jurisdiction, year, tags, created_by, created_at)
+SELECT id, 1, title, description, content, domain, jurisdiction, year, tags, uploaded_by, created_at
+FROM public.legal_documents;
+
+UPDATE public.legal_documents SET indexed_version = 1 WHERE indexing_status = 'indexed';
+
+ALTER TABLE public.document_embeddings ADD COLUMN document_version INTEGER;
+
+UPDATE public.document_embeddings SET document_version = 1;
+
+CREATE OR REPLACE FUNCTION public.bump_document_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.title, NEW.description, NEW.content, NEW.domain, NEW.jurisdiction, NEW.year, NEW.tags)
+        IS DISTINCT FROM
+       (OLD.title, OLD.description, OLD.content, OLD.domain, OLD.jurisdiction, OLD.year, OLD.tags) THEN
+        NEW.version = OLD.version + 1;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER bump_legal_documents_version
+    BEFORE UPDATE ON public.legal_documents
+    FOR EACH ROW EXECUTE FUNCTION public.bump_document_version();
+
+CREATE OR REPLACE FUNCTION public.snapshot_document_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.version = OLD.version THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.legal_document_versions
+        (document_id, version, title, description, content, domain, jurisdiction, year, tags, created_by)
+    VALUES (
+        NEW.id, NEW.version, NEW.title, NEW.description, NEW.content, NEW.domain, NEW.jurisdiction,
+        NEW.year, NEW.tags, CASE WHEN TG_OP = 'INSERT' THEN NEW.uploaded_by ELSE auth.uid() END
+    );
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.snapshot_document_version() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER snapshot_legal_documents_version
+    AFTER INSERT OR UPDATE ON public.legal_documents
+    FOR EACH ROW EXECUTE FUNCTION public.snapshot_document_version();
+
+-- Same swap as before, now also recording on the document and on every chunk which version the
+-- chunks were cut from
+CREATE OR REPLACE FUNCTION public.replace_document_chunks(
+    _document_id UUID,
+    _content_hash TEXT,
+    _chunks JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+DECLARE
+    _version INTEGER;
+BEGIN
+    SELECT version INTO _version FROM public.legal_documents
+    WHERE id = _document_id
+      AND encode(sha256(convert_to(coalesce(content, ''), 'UTF8')), 'hex') = _content_hash
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    DELETE FROM public.document_embeddings WHERE document_id = _document_id;
+
+    INSERT INTO public.document_embeddings
+        (document_id, chunk_index, chunk_text, embedding, metadata, document_version)
+    SELECT
+        _document_id,
+        (chunk->>'chunk_index')::INTEGER,
+        chunk->>'chunk_text',
+        (chunk->>'embedding')::extensions.vector,
+        chunk->'metadata',
+        _version
+    FROM jsonb_array_elements(_chunks) AS chunk;
+
+    UPDATE public.legal_documents
+    SET indexing_status = 'indexed', indexing_error = NULL, indexed_at = now(), indexed_version = _version
+    WHERE id = _document_id;
+
+    RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_document_chunks(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- The return type changes, so drop rather than replace.
+DROP FUNCTION public.match_document_chunks(
+    extensions.vector, INTEGER, DOUBLE PRECISION, TEXT, legal_domain[], INTEGER, INTEGER
+);
+
+-- Same search as before, also returning the version each chunk was cut from
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+    query_embedding extensions.vector(1536),
+    match_count INTEGER DEFAULT 6,
+    match_threshold DOUBLE PRECISION DEFAULT 0.5,
+    filter_jurisdiction TEXT DEFAULT NULL,
+    filter_domains legal_domain[] DEFAULT NULL,
+    filter_year_from INTEGER DEFAULT NULL,
+    filter_year_to INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    document_id UUID,
+    chunk_index INTEGER,
+    chunk_text TEXT,
+    metadata JSONB,
+    document_version INTEGER,
+    title TEXT,
+    domain legal_domain,
+    jurisdiction TEXT,
+    year INTEGER,
+    similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    e.id,
+    e.document_id,
+    e.chunk_index,
+    e.chunk_text,
+    e.metadata,
+    e.document_version,
+    d.title,
+    d.domain,
+    d.jurisdiction,
+    d.year,
+    1 - (e.embedding <=> query_embedding) AS similarity
+  FROM public.document_embeddings e
+  JOIN public.legal_documents d ON d.id = e.document_id
+  WHERE d.validated = true
+    AND e.embedding IS NOT NULL
+    AND 1 - (e.embedding <=> query_embedding) >= match_threshold
+    AND (filter_jurisdiction IS NULL OR d.jurisdiction IS NULL
+         OR lower(d.jurisdiction) = lower(filter_jurisdiction))
+    AND (filter_domains IS NULL OR cardinality(filter_domains) = 0 OR d.domain = ANY(filter_domains))
+    AND (filter_year_from IS NULL OR d.year >= filter_year_from)
+    AND (filter_year_to IS NULL OR d.year <= filter_year_to)
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count
+$$;
+
+-- Admins roll a document back by copying an old version over it, which becomes a new version.
+CREATE OR REPLACE FUNCTION public.restore_document_version(_version_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _source public.legal_document_versions;
+    _previous INTEGER;
+    _version INTEGER;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can restore document versions';
+    END IF;
+
+    SELECT * INTO _source FROM public.legal_document_versions WHERE id = _version_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Document version not found';
+    END IF;
+
+    SELECT version INTO _previous FROM public.legal_documents WHERE id = _source.document_id FOR UPDATE;
+
+    UPDATE public.legal_documents
+    SET title = _source.title,
+        description = _source.description,
+        content = _source.content,
+        domain = _source.domain,
+        jurisdiction = _source.jurisdiction,
+        year = _source.year,
+        tags = _source.tags
+    WHERE id = _source.document_id
+    RETURNING version INTO _version;
+
+    -- Restoring wording identical to the current one creates no new version to annotate.
+    IF _version > _previous THEN
+        UPDATE public.legal_document_versions
+        SET note = format('Restored from version %s', _source.version)
+        WHERE document_id = _source.document_id AND version = _version;
+    END IF;
+
+    RETURN _version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.restore_document_version(UUID) FROM PUBLIC, anon;
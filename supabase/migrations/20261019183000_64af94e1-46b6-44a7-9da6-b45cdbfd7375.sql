@@ -0,0 +1,3 @@
+-- legal-chat refreshes a conversation's generated title and summary after the answer's stream has
+-- closed, so the chat page picks them up as realtime updates.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversations;
@@ -0,0 +1,18 @@
+-- A share may only snapshot a message of the conversation it shares; shared-conversation reads
+-- the branch with the service role, so a foreign message_id would expose another user's thread.
+CREATE OR REPLACE FUNCTION public.check_share_message()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.message_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.messages
+        WHERE id = NEW.message_id AND conversation_id = NEW.conversation_id
+    ) THEN
+        RAISE EXCEPTION 'The shared message does not belong to this conversation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_conversation_shares_message
+    BEFORE INSERT OR UPDATE OF conversation_id, message_id ON public.conversation_shares
+    FOR EACH ROW EXECUTE FUNCTION public.check_share_message();